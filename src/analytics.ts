@@ -2,6 +2,8 @@ import type {
   WrappedStats,
   Language,
   ContributionDay,
+  MonthlyBreakdown,
+  MonthlyTotal,
   Commit,
   Repository,
   Archetype,
@@ -9,9 +11,35 @@ import type {
   GitHubUser,
   ComparisonStats,
   YearComparison,
+  TrendReport,
+  DateRange,
+  OrgActivity,
+  OrgContributor,
+  OrgWrappedStats,
+  TeamMember,
+  TeamWrappedStats,
+  LeaderboardEntry,
+  LanguageWeighting,
 } from './types.js';
+import { yearRange, countDays, formatDateRange, isWithinRange, toIsoDate } from './utils/date-range.js';
+import { LANGUAGE_WEIGHTING_SPLITS } from './data-source.js';
+import { systemTimeZone, hourInTimeZone, wallClockInTimeZone, weekdayOfDate } from './utils/timezone.js';
+
+// Commits are split fractionally, so a stray config file should not count as a language someone used
+const POLYGLOT_MIN_PERCENTAGE = 5;
+
+// "of your commits", with the split the Languages slide label names when it is known
+function languageShare(weighting?: LanguageWeighting): string {
+  return weighting ? `of your commits, ${LANGUAGE_WEIGHTING_SPLITS[weighting]}` : 'of your commits';
+}
 
 export class StatsAnalyzer {
+  /**
+   * @param timeZone - IANA zone commit timestamps are bucketed into hours in (default: the system zone).
+   * Contribution calendar dates are already calendar days and are never shifted.
+   */
+  constructor(readonly timeZone: string = systemTimeZone()) {}
+
   calculateStreak(contributions: ContributionDay[]): {
     longest: number;
     current: number;
@@ -20,10 +48,8 @@ export class StatsAnalyzer {
     let currentStreak = 0;
     let tempStreak = 0;
 
-    // Sort by date
-    const sorted = [...contributions].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
+    // Sort by date (YYYY-MM-DD sorts lexically)
+    const sorted = [...contributions].sort((a, b) => a.date.localeCompare(b.date));
 
     for (let i = 0; i < sorted.length; i++) {
       if (sorted[i].count > 0) {
@@ -53,13 +79,13 @@ export class StatsAnalyzer {
     const total = Object.values(languageStats).reduce((a, b) => a + b, 0);
 
     const languages: Language[] = Object.entries(languageStats)
-      .map(([name, bytes]) => ({
+      .map(([name, weight]) => ({
         name,
-        bytes,
-        percentage: (bytes / total) * 100,
+        weight,
+        percentage: (weight / total) * 100,
         color: this.getLanguageColor(name),
       }))
-      .sort((a, b) => b.bytes - a.bytes)
+      .sort((a, b) => b.weight - a.weight)
       .slice(0, 5);
 
     return languages;
@@ -92,7 +118,8 @@ export class StatsAnalyzer {
     const hourCounts = new Array(24).fill(0);
 
     for (const commit of commits) {
-      const hour = new Date(commit.commit.author.date).getHours();
+      if (commit.dateOnly) continue;
+      const hour = hourInTimeZone(commit.commit.author.date, this.timeZone);
       hourCounts[hour]++;
     }
 
@@ -100,6 +127,22 @@ export class StatsAnalyzer {
     return hourCounts.indexOf(maxCount);
   }
 
+  /**
+   * Commits per weekday (rows, 0 = Sunday) and hour (columns, 0-23) in the analyzer's time zone.
+   * Date-only commits are left out, as in the peak hour.
+   */
+  calculatePunchCard(commits: Commit[]): number[][] {
+    const matrix = Array.from({ length: 7 }, () => new Array(24).fill(0));
+
+    for (const commit of commits) {
+      if (commit.dateOnly) continue;
+      const { weekday, hour } = wallClockInTimeZone(commit.commit.author.date, this.timeZone);
+      matrix[weekday][hour]++;
+    }
+
+    return matrix;
+  }
+
   determineArchetype(
     peakHour: number,
     totalCommits: number,
@@ -130,7 +173,7 @@ export class StatsAnalyzer {
 
     // Weekend Warrior
     const weekendCommits = contributions.filter((c) => {
-      const day = new Date(c.date).getDay();
+      const day = weekdayOfDate(c.date);
       return (day === 0 || day === 6) && c.count > 0;
     }).length;
 
@@ -274,10 +317,10 @@ export class StatsAnalyzer {
       {
         id: 'polyglot',
         name: 'Polyglot',
-        description: 'Used 5+ programming languages',
+        description: `Put ${POLYGLOT_MIN_PERCENTAGE}%+ ${languageShare(stats.languageWeighting)}, into each of 5 languages`,
         emoji: '🗣️',
         rarity: 'rare',
-        unlocked: (stats.topLanguages || []).length >= 5,
+        unlocked: this.countSubstantialLanguages(stats.topLanguages || []) >= 5,
       },
       {
         id: 'popular',
@@ -349,7 +392,7 @@ export class StatsAnalyzer {
 
     for (const day of contributions) {
       if (day.count > 0) {
-        const dayOfWeek = new Date(day.date).getDay();
+        const dayOfWeek = weekdayOfDate(day.date);
         dayCounts[dayOfWeek] += day.count;
       }
     }
@@ -358,6 +401,57 @@ export class StatsAnalyzer {
     return dayNames[dayCounts.indexOf(maxCount)];
   }
 
+  /**
+   * Sum the contribution calendar per month, including empty months inside the period
+   * @param range - Period the calendar covers; months are cut to it
+   */
+  calculateMonthlyBreakdown(contributions: ContributionDay[], range: DateRange): MonthlyBreakdown {
+    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    const totals = new Map<string, number>();
+
+    for (
+      const cursor = new Date(`${range.from.slice(0, 7)}-01T00:00:00Z`);
+      toIsoDate(cursor) <= range.to;
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+    ) {
+      totals.set(toIsoDate(cursor).slice(0, 7), 0);
+    }
+
+    for (const day of contributions) {
+      const key = day.date.slice(0, 7);
+      if (totals.has(key) && isWithinRange(day.date, range)) {
+        totals.set(key, totals.get(key)! + day.count);
+      }
+    }
+
+    const months: MonthlyTotal[] = [...totals.entries()].map(([key, count], i, entries) => {
+      const previous = i > 0 ? entries[i - 1][1] : 0;
+      return {
+        month: key,
+        label: `${monthNames[Number(key.slice(5, 7)) - 1]} ${key.slice(0, 4)}`,
+        contributions: count,
+        change: previous > 0 ? Math.round(((count - previous) / previous) * 100) : null,
+      };
+    });
+
+    // Ties go to the earlier month
+    const best = months.reduce((a, b) => (b.contributions > a.contributions ? b : a));
+    const quietest = months.reduce((a, b) => (b.contributions < a.contributions ? b : a));
+
+    const half = Math.floor(months.length / 2);
+    const average = (part: MonthlyTotal[]) =>
+      part.reduce((sum, m) => sum + m.contributions, 0) / Math.max(part.length, 1);
+    const firstHalf = average(months.slice(0, half));
+    const secondHalf = average(months.slice(months.length - half));
+
+    return {
+      months,
+      bestMonth: best.month,
+      quietestMonth: quietest.month,
+      momentum: half > 0 && firstHalf > 0 ? Math.round(((secondHalf - firstHalf) / firstHalf) * 100) : 0,
+    };
+  }
+
   /**
    * Find the repository with the most commits
    * @param commits - Array of commits (should include repository field from GraphQL)
@@ -417,9 +511,9 @@ export class StatsAnalyzer {
     if (stats.topLanguages && stats.topLanguages.length > 0) {
       const topLang = stats.topLanguages[0];
       if (topLang.percentage > 60) {
-        insights.push(`💎 ${topLang.name} specialist - ${topLang.percentage.toFixed(0)}% of your code`);
-      } else if (stats.topLanguages.length >= 5) {
-        insights.push(`🗣️ True polyglot - mastered ${stats.topLanguages.length} languages`);
+        insights.push(`💎 ${topLang.name} specialist - ${topLang.percentage.toFixed(0)}% ${languageShare(stats.languageWeighting)}`);
+      } else if (this.countSubstantialLanguages(stats.topLanguages) >= 5) {
+        insights.push(`🗣️ True polyglot - mastered ${this.countSubstantialLanguages(stats.topLanguages)} languages`);
       }
     }
 
@@ -450,6 +544,10 @@ export class StatsAnalyzer {
     return insights.slice(0, 3); // Return top 3 insights
   }
 
+  private countSubstantialLanguages(languages: Language[]): number {
+    return languages.filter((lang) => lang.percentage >= POLYGLOT_MIN_PERCENTAGE).length;
+  }
+
   async generateWrappedStats(
     user: GitHubUser,
     commits: Commit[],
@@ -461,24 +559,32 @@ export class StatsAnalyzer {
     realLinesChanged?: { additions: number; deletions: number; total: number },
     year?: number,
     dateRange?: string,
-    accurateCommitCount?: number
+    accurateCommitCount?: number,
+    period?: DateRange,
+    languageWeighting: LanguageWeighting = 'repo-bytes'
   ): Promise<WrappedStats> {
-    const streaks = this.calculateStreak(contributions);
+    // Window the wrap covers - a calendar year unless a custom range was requested
+    const selectedYear = year || (period ? Number(period.from.slice(0, 4)) : new Date().getFullYear());
+    const range = period || yearRange(selectedYear);
+
+    // Only count days inside the window so streaks match the requested period
+    const periodContributions = contributions.filter((day) => isWithinRange(day.date, range));
+
+    const streaks = this.calculateStreak(periodContributions);
     const topLanguages = this.calculateTopLanguages(languageStats);
     const peakHour = this.calculatePeakHour(commits);
-    const busiestDay = this.calculateBusiestDay(contributions);
+    const punchCard = this.calculatePunchCard(commits);
+    const busiestDay = this.calculateBusiestDay(periodContributions);
+    const monthly = this.calculateMonthlyBreakdown(periodContributions, range);
     const mostActiveRepo = this.findMostActiveRepo(commits, repos);
     const totalLinesChanged = this.calculateTotalLinesChanged(repos, realLinesChanged);
 
     // Use accurate commit count from GitHub API, fallback to commits array length
     const totalCommits = accurateCommitCount || commits.length;
 
-    // Calculate days in the selected year
-    const selectedYear = year || new Date().getFullYear();
-    const startOfYear = new Date(`${selectedYear}-01-01`);
-    const endOfYear = selectedYear === new Date().getFullYear() ? new Date() : new Date(`${selectedYear}-12-31`);
-    const daysInYear = Math.ceil((endOfYear.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24));
-    const avgCommitsPerDay = totalCommits / Math.max(daysInYear, 1);
+    // Calculate days in the selected window
+    const daysInRange = countDays(range);
+    const avgCommitsPerDay = totalCommits / Math.max(daysInRange, 1);
 
     const stats: Partial<WrappedStats> = {
       user,
@@ -490,24 +596,29 @@ export class StatsAnalyzer {
       longestStreak: streaks.longest,
       currentStreak: streaks.current,
       topLanguages,
+      languageWeighting,
       topRepos: repos
         .sort((a, b) => b.stargazers_count - a.stargazers_count)
         .slice(0, 5),
-      contributions,
+      contributions: periodContributions,
       peakHour,
+      punchCard,
       busiestDay,
+      monthly,
       mostActiveRepo,
       totalLinesChanged,
       avgCommitsPerDay,
       year: selectedYear,
-      dateRange: dateRange || `${startOfYear.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${endOfYear.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+      dateRange: dateRange || formatDateRange(range),
+      period: range,
+      timeZone: this.timeZone,
     };
 
     const archetype = this.determineArchetype(
       peakHour,
       stats.totalCommits!,
       totalPRs,
-      contributions
+      periodContributions
     );
 
     const achievements = this.calculateAchievements(stats);
@@ -528,7 +639,9 @@ export class StatsAnalyzer {
     contributions: ContributionDay[],
     totalPRs: number,
     totalIssues: number,
-    accurateCommitCount?: number
+    accurateCommitCount?: number,
+    label?: string,
+    totalReviews?: number
   ): YearComparison {
     const streaks = this.calculateStreak(contributions);
     const topLanguages = this.calculateTopLanguages(languageStats);
@@ -536,18 +649,185 @@ export class StatsAnalyzer {
 
     return {
       year,
+      label: label || String(year),
       totalCommits: accurateCommitCount || commits.length,
       totalPRs,
       totalIssues,
+      totalReviews,
       longestStreak: streaks.longest,
       topLanguages,
       peakHour,
     };
   }
 
+  /**
+   * Summarize per-year comparisons (as produced by generateYearComparison) into a trend report
+   * @param years - One entry per calendar year, in any order
+   */
+  generateTrendReport(username: string, years: YearComparison[]): TrendReport {
+    const sorted = [...years].sort((a, b) => a.year - b.year);
+
+    const totals = sorted.reduce(
+      (sum, year) => ({
+        commits: sum.commits + year.totalCommits,
+        prs: sum.prs + year.totalPRs,
+        issues: sum.issues + year.totalIssues,
+        reviews: sum.reviews + (year.totalReviews || 0),
+      }),
+      { commits: 0, prs: 0, issues: 0, reviews: 0 }
+    );
+
+    let busiest = sorted[0];
+    let longest = sorted[0];
+    for (const year of sorted) {
+      if (year.totalCommits > busiest.totalCommits) busiest = year;
+      if (year.longestStreak > longest.longestStreak) longest = year;
+    }
+
+    return {
+      username,
+      years: sorted,
+      totals,
+      busiestYear: busiest?.year ?? new Date().getFullYear(),
+      longestStreak: {
+        year: longest?.year ?? new Date().getFullYear(),
+        days: longest?.longestStreak ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Reduce already-computed wrapped stats to the fields used in comparisons
+   */
+  summarizeForComparison(stats: WrappedStats): YearComparison {
+    return {
+      year: stats.year,
+      label: stats.period.label,
+      totalCommits: stats.totalCommits,
+      totalPRs: stats.totalPRs,
+      totalIssues: stats.totalIssues,
+      longestStreak: stats.longestStreak,
+      topLanguages: stats.topLanguages,
+      peakHour: stats.peakHour,
+    };
+  }
+
+  /**
+   * Aggregate an organization's repositories into org-level stats
+   */
+  generateOrgWrappedStats(activity: OrgActivity, range: DateRange): OrgWrappedStats {
+    const activeRepos = activity.repositories.filter((repo) => repo.commits > 0);
+
+    const contributors = new Map<string, OrgContributor>();
+    const languageStats: { [key: string]: number } = {};
+
+    for (const repo of activeRepos) {
+      for (const [key, author] of Object.entries(repo.authors)) {
+        const existing = contributors.get(key);
+        if (existing) {
+          existing.commits += author.commits;
+        } else {
+          contributors.set(key, { ...author });
+        }
+      }
+
+      for (const [language, bytes] of Object.entries(repo.languages)) {
+        languageStats[language] = (languageStats[language] || 0) + bytes;
+      }
+    }
+
+    const busiestRepos = [...activeRepos]
+      .sort((a, b) => b.commits - a.commits)
+      .slice(0, 5)
+      .map((repo) => ({
+        name: repo.repository.name,
+        commits: repo.commits,
+        contributors: Object.keys(repo.authors).length,
+        stars: repo.repository.stargazers_count,
+        language: repo.repository.language,
+      }));
+
+    const newRepos = activity.repositories
+      .map((repo) => repo.repository)
+      .filter((repo) => isWithinRange(repo.created_at, range))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return {
+      org: activity.org,
+      totalCommits: activeRepos.reduce((sum, repo) => sum + repo.commits, 0),
+      totalPRs: activity.totalPRs,
+      totalIssues: activity.totalIssues,
+      totalRepos: activity.totalRepos,
+      activeRepos: activeRepos.length,
+      totalContributors: contributors.size,
+      topContributors: [...contributors.values()].sort((a, b) => b.commits - a.commits).slice(0, 10),
+      busiestRepos,
+      topLanguages: this.calculateTopLanguages(languageStats),
+      newRepos,
+      year: Number(range.from.slice(0, 4)),
+      dateRange: formatDateRange(range),
+      period: range,
+    };
+  }
+
+  /**
+   * Combine per-member stats into team totals, leaderboards, languages and achievements
+   */
+  generateTeamWrappedStats(
+    name: string,
+    members: TeamMember[],
+    range: DateRange,
+    inactiveMembers: string[] = []
+  ): TeamWrappedStats {
+    const leaderboard = (value: (member: TeamMember) => number): LeaderboardEntry[] =>
+      members
+        .map((member) => ({ login: member.stats.user.login, value: value(member) }))
+        .sort((a, b) => b.value - a.value || a.login.localeCompare(b.login));
+
+    const languageStats: { [key: string]: number } = {};
+    const achievements = new Map<string, { achievement: Achievement; holders: string[] }>();
+
+    for (const member of members) {
+      for (const [language, count] of Object.entries(member.languageStats)) {
+        languageStats[language] = (languageStats[language] || 0) + count;
+      }
+
+      for (const achievement of member.stats.achievements) {
+        if (!achievement.unlocked) continue;
+        const entry = achievements.get(achievement.id) || { achievement, holders: [] };
+        entry.holders.push(member.stats.user.login);
+        achievements.set(achievement.id, entry);
+      }
+    }
+
+    return {
+      name,
+      members,
+      inactiveMembers,
+      totals: {
+        commits: members.reduce((sum, member) => sum + member.stats.totalCommits, 0),
+        prs: members.reduce((sum, member) => sum + member.stats.totalPRs, 0),
+        issues: members.reduce((sum, member) => sum + member.stats.totalIssues, 0),
+        reviews: members.reduce((sum, member) => sum + member.totalReviews, 0),
+      },
+      leaderboards: {
+        commits: leaderboard((member) => member.stats.totalCommits),
+        prs: leaderboard((member) => member.stats.totalPRs),
+        reviews: leaderboard((member) => member.totalReviews),
+        streak: leaderboard((member) => member.stats.longestStreak),
+      },
+      topLanguages: this.calculateTopLanguages(languageStats),
+      // Most widely shared first
+      achievements: [...achievements.values()].sort((a, b) => b.holders.length - a.holders.length),
+      year: Number(range.from.slice(0, 4)),
+      dateRange: formatDateRange(range),
+      period: range,
+    };
+  }
+
   generateComparisonStats(
-    year2024Data: YearComparison,
-    year2025Data: YearComparison
+    previous: YearComparison,
+    current: YearComparison
   ): ComparisonStats {
     const calculateGrowth = (old: number, current: number): number => {
       if (old === 0) return current > 0 ? 100 : 0;
@@ -555,13 +835,13 @@ export class StatsAnalyzer {
     };
 
     return {
-      year2024: year2024Data,
-      year2025: year2025Data,
+      previous,
+      current,
       growth: {
-        commits: calculateGrowth(year2024Data.totalCommits, year2025Data.totalCommits),
-        prs: calculateGrowth(year2024Data.totalPRs, year2025Data.totalPRs),
-        issues: calculateGrowth(year2024Data.totalIssues, year2025Data.totalIssues),
-        streak: calculateGrowth(year2024Data.longestStreak, year2025Data.longestStreak),
+        commits: calculateGrowth(previous.totalCommits, current.totalCommits),
+        prs: calculateGrowth(previous.totalPRs, current.totalPRs),
+        issues: calculateGrowth(previous.totalIssues, current.totalIssues),
+        streak: calculateGrowth(previous.longestStreak, current.longestStreak),
       },
     };
   }
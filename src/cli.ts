@@ -0,0 +1,421 @@
+import { parseArgs } from 'util';
+import type { DateRange, Period, TeamSelector, Identity } from './types.js';
+import type { CacheMode } from './utils/disk-cache.js';
+import { resolveGitHubHost, type GitHubHost } from './utils/github-host.js';
+import { resolveTimeZone } from './utils/timezone.js';
+import { DEFAULT_DATA_SOURCE, listDataSources } from './data-source.js';
+import { NotFoundError, UnauthorizedError, RateLimitedError, InsufficientScopesError, NetworkError, NoDataError, OfflineCacheMissError, MissingConfigurationError } from './errors.js';
+import { customRange, parseQuarter, fiscalYearRange, lastDaysRange, validateRange, toIsoDate } from './utils/date-range.js';
+
+export type OutputFormat = 'json' | 'png' | 'text' | 'csv';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'png', 'text', 'csv'];
+
+export interface CliOptions {
+  user?: string;
+  org?: string;
+  team?: TeamSelector;
+  identities?: Identity[];
+  local?: string[];
+  authorEmails?: string[];
+  period?: Period;
+  source: string;
+  instanceUrl?: string;
+  host: GitHubHost;
+  timeZone: string;
+  tokenEnv?: string;
+  format?: OutputFormat;
+  out?: string;
+  compare: boolean;
+  trend: boolean;
+  punchCard: boolean;
+  cache: CacheMode;
+  help: boolean;
+}
+
+/**
+ * Process exit codes for scripted (non-interactive) runs
+ */
+export const ExitCode = {
+  Success: 0,
+  Error: 1,
+  Usage: 2,
+  NotFound: 3,
+  AuthRequired: 4,
+  RateLimited: 5,
+  NoData: 6,
+  InsufficientScopes: 7,
+  Network: 8,
+  OfflineCacheMiss: 9,
+} as const;
+
+export type ExitCodeValue = typeof ExitCode[keyof typeof ExitCode];
+
+export const USAGE = `Usage: gh-wrapped-2025 [options]
+
+Runs the interactive terminal UI by default. Passing --user, --org, --format
+or --out runs headlessly and writes the result without any prompts.
+--team alone adds a leaderboard slide to the UI; with --format or --out it
+writes the team summary instead. --local reads local git history instead of
+the GitHub API, in the UI or headlessly. --identity merges several accounts
+into one wrap.
+
+Options:
+  -u, --user <login>       GitHub username (defaults to the one in git config)
+      --org <login>        Wrap a whole organization instead of a user
+      --team <team>        Team leaderboard for comma-separated logins (alice,bob)
+                           or an organization team (acme/platform, needs read:org)
+      --identity <id>      Merge this account into the wrap (repeatable), as
+                           source:login[@host], e.g. github:octocat,
+                           github:jdoe@ghe.example.com, gitlab:jane@https://gitlab.example.com
+      --local <path>       Read commits from a local repository or a directory of
+                           clones instead of GitHub (repeatable, no token needed)
+      --author-email <e>   Email whose commits count with --local (repeatable,
+                           default: git config user.email)
+  -y, --year <year>        Year to wrap (defaults to the current year, or asks in the UI)
+      --from <date>        Start of a custom range (YYYY-MM-DD, use with --to)
+      --to <date>          End of a custom range (YYYY-MM-DD, defaults to today)
+      --quarter <quarter>  Calendar quarter, e.g. 2025-Q2
+      --fiscal-year <year> Fiscal year starting in <year>, e.g. 2025 = Apr 2025 - Mar 2026
+      --fiscal-start <m>   First month (1-12) of the fiscal year (default: 4)
+      --last <days>        Rolling window ending today, e.g. --last 90
+      --source <id>        Where the data comes from (default: github, which falls back
+                           to the REST API without a token): ${listDataSources().join(', ')}
+      --instance <url>     Self-hosted GitLab URL for --source gitlab
+                           (default: $GITLAB_URL or https://gitlab.com), or the
+                           Gitea/Forgejo URL for --source gitea (default: $GITEA_URL)
+      --host <hostname>    GitHub Enterprise Server hostname (default: $GH_HOST or github.com)
+      --timezone <zone>    IANA time zone for peak hours, e.g. Asia/Tokyo (default: the
+                           system zone, or $TZ)
+      --token-env <name>   Environment variable holding the token (default: discover it,
+                           see "Tokens" below)
+  -f, --format <format>    Output format: json, png, text or csv (default: text);
+                           csv needs --trend, or --team for one row per member
+  -o, --out <path>         Write output to a file instead of stdout
+      --punch-card         Draw the hour-by-weekday punch card on the PNG card
+      --compare            Compare with the same period one year earlier
+      --trend              Add a year-by-year trend since the account was created
+                           (csv output contains only the trend)
+      --refresh            Ignore cached API responses and download fresh data
+      --offline            Only use cached API responses, never touch the network
+  -h, --help               Show this help
+
+Tokens:
+  Without --token-env the first token found is used: GH_TOKEN, GITHUB_TOKEN
+  (GH_ENTERPRISE_TOKEN, GITHUB_ENTERPRISE_TOKEN with --host), the gh CLI login,
+  then git's credential helpers. The interactive UI asks if none is found.
+  --source gitlab reads GITLAB_TOKEN or GL_TOKEN instead, --source gitea
+  GITEA_TOKEN or FORGEJO_TOKEN.
+
+Exit codes:
+  0 success, 1 unexpected error, 2 invalid arguments, 3 user or org not found,
+  4 authentication required, 5 rate limited, 6 no data for the year,
+  7 token is missing scopes, 8 host unreachable, 9 nothing cached for --offline`;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Parse command line arguments into CLI options
+ * @throws CliUsageError when an argument is unknown or invalid
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        user: { type: 'string', short: 'u' },
+        org: { type: 'string' },
+        team: { type: 'string' },
+        identity: { type: 'string', multiple: true },
+        local: { type: 'string', multiple: true },
+        'author-email': { type: 'string', multiple: true },
+        year: { type: 'string', short: 'y' },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        quarter: { type: 'string' },
+        'fiscal-year': { type: 'string' },
+        'fiscal-start': { type: 'string' },
+        last: { type: 'string' },
+        source: { type: 'string' },
+        instance: { type: 'string' },
+        host: { type: 'string' },
+        timezone: { type: 'string' },
+        'token-env': { type: 'string' },
+        format: { type: 'string', short: 'f' },
+        out: { type: 'string', short: 'o' },
+        compare: { type: 'boolean' },
+        trend: { type: 'boolean' },
+        'punch-card': { type: 'boolean' },
+        refresh: { type: 'boolean' },
+        offline: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+      strict: true,
+      allowPositionals: false,
+    }));
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (values.refresh && values.offline) {
+    throw new CliUsageError('Options --refresh and --offline cannot be combined.');
+  }
+
+  let host: GitHubHost;
+  try {
+    host = resolveGitHubHost(values.host || process.env.GH_HOST || undefined);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  let timeZone: string;
+  try {
+    timeZone = resolveTimeZone(values.timezone);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const options: CliOptions = {
+    user: values.user?.trim() || undefined,
+    org: values.org?.trim() || undefined,
+    source: values.local ? 'local' : values.source || DEFAULT_DATA_SOURCE,
+    host,
+    timeZone,
+    tokenEnv: values['token-env'] || undefined,
+    out: values.out,
+    compare: values.compare ?? false,
+    trend: values.trend ?? false,
+    punchCard: values['punch-card'] ?? false,
+    cache: values.offline ? 'offline' : values.refresh ? 'refresh' : 'default',
+    help: values.help ?? false,
+  };
+
+  options.period = parsePeriod(values);
+
+  if (values.format !== undefined) {
+    if (!OUTPUT_FORMATS.includes(values.format as OutputFormat)) {
+      throw new CliUsageError(`Invalid --format "${values.format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    options.format = values.format as OutputFormat;
+  }
+
+  if (options.org) {
+    const conflicting = (['user', 'compare', 'trend'] as const).filter((flag) => values[flag]);
+    if (conflicting.length > 0) {
+      throw new CliUsageError(`--org cannot be combined with ${conflicting.map((flag) => `--${flag}`).join(', ')}.`);
+    }
+  }
+
+  if (values.team !== undefined) {
+    options.team = parseTeam(values.team);
+
+    const conflicting = (['user', 'org', 'compare', 'trend'] as const).filter((flag) => values[flag]);
+    if (conflicting.length > 0) {
+      throw new CliUsageError(`--team cannot be combined with ${conflicting.map((flag) => `--${flag}`).join(', ')}.`);
+    }
+    if (options.format === 'png') {
+      throw new CliUsageError('--format png is not available for team wraps. Use text, json or csv.');
+    }
+  }
+
+  if (values.identity) {
+    options.identities = values.identity.map(parseIdentity);
+
+    // Each identity carries its own source, host and token
+    const conflicting = (['user', 'org', 'team', 'local', 'source', 'instance', 'host', 'token-env'] as const).filter((flag) => values[flag]);
+    if (conflicting.length > 0) {
+      throw new CliUsageError(`--identity cannot be combined with ${conflicting.map((flag) => `--${flag}`).join(', ')}.`);
+    }
+  }
+
+  if (!listDataSources().includes(options.source)) {
+    throw new CliUsageError(`Invalid --source "${options.source}". Expected one of: ${listDataSources().join(', ')}`);
+  }
+  if (values.source && values.local && values.source !== 'local') {
+    throw new CliUsageError(`--local reads local repositories and cannot be combined with --source ${values.source}.`);
+  }
+  if (options.source === 'local' && !values.local) {
+    throw new CliUsageError('--source local requires --local <path>.');
+  }
+  if (options.source === 'gitlab' || options.source === 'gitea') {
+    options.instanceUrl = values.instance || process.env[options.source === 'gitlab' ? 'GITLAB_URL' : 'GITEA_URL'] || undefined;
+    if (options.instanceUrl && !/^https?:\/\//i.test(options.instanceUrl)) {
+      throw new CliUsageError(`Invalid --instance "${options.instanceUrl}". Expected a URL like https://${options.source}.example.com.`);
+    }
+    // gitea.com hosts few people's work; there is no sensible default instance
+    if (options.source === 'gitea' && !options.instanceUrl) {
+      throw new CliUsageError('--source gitea requires --instance <url> (or GITEA_URL).');
+    }
+  } else if (values.instance) {
+    throw new CliUsageError('--instance requires --source gitlab or --source gitea.');
+  }
+  if (options.org && options.source !== DEFAULT_DATA_SOURCE) {
+    throw new CliUsageError('--org is only available with the default github source.');
+  }
+
+  if (values.local) {
+    options.local = values.local;
+    options.authorEmails = values['author-email'];
+
+    const conflicting = (['org', 'team'] as const).filter((flag) => values[flag]);
+    if (conflicting.length > 0) {
+      throw new CliUsageError(`--local cannot be combined with ${conflicting.map((flag) => `--${flag}`).join(', ')}.`);
+    }
+  } else if (values['author-email']) {
+    throw new CliUsageError('--author-email requires --local.');
+  }
+
+  // The interactive UI exports PNG cards too, so the flag only conflicts with other formats
+  if (options.punchCard && ((options.format && options.format !== 'png') || options.org)) {
+    throw new CliUsageError('--punch-card only applies to user PNG cards (--format png or the interactive export).');
+  }
+
+  if (options.format === 'csv' && !options.trend && !options.team) {
+    throw new CliUsageError('--format csv is only available together with --trend or --team.');
+  }
+
+  return options;
+}
+
+/**
+ * Parse --identity "source:login[@host]". GitHub hosts are hostnames, GitLab and Gitea hosts
+ * instance URLs (https:// is assumed when the scheme is missing).
+ */
+function parseIdentity(value: string): Identity {
+  const match = value.trim().match(/^([a-z-]+):([^@\s]+)(?:@(\S+))?$/);
+  if (!match) {
+    throw new CliUsageError(`Invalid --identity "${value}". Expected source:login or source:login@host, e.g. gitlab:jane@gitlab.example.com.`);
+  }
+
+  const [, source, login, instance] = match;
+  const sources = listDataSources().filter((id) => id !== 'local');
+  if (!sources.includes(source)) {
+    throw new CliUsageError(`Invalid --identity source "${source}". Expected one of: ${sources.join(', ')}`);
+  }
+  if (source === 'gitea' && !instance) {
+    throw new CliUsageError(`--identity ${value} needs the instance, e.g. gitea:${login}@https://gitea.example.com.`);
+  }
+
+  if (!instance) return { source, login };
+  if (source.startsWith('github')) {
+    try {
+      return { source, login, instance: resolveGitHubHost(instance).hostname };
+    } catch (error) {
+      throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+  return { source, login, instance: /^https?:\/\//i.test(instance) ? instance : `https://${instance}` };
+}
+
+/**
+ * Parse --team: "org/slug" names a GitHub team, anything else is a comma-separated list of logins
+ */
+function parseTeam(value: string): TeamSelector {
+  const trimmed = value.trim();
+  const teamMatch = trimmed.match(/^([A-Za-z0-9-]+)\/([A-Za-z0-9_.-]+)$/);
+  if (teamMatch) {
+    return { org: teamMatch[1], slug: teamMatch[2].toLowerCase() };
+  }
+
+  const usernames = [...new Set(trimmed.split(',').map((login) => login.trim()).filter(Boolean))];
+  if (usernames.length === 0 || usernames.some((login) => !/^[A-Za-z0-9-]+$/.test(login))) {
+    throw new CliUsageError(`Invalid --team "${value}". Expected logins separated by commas (alice,bob) or org/team-slug.`);
+  }
+
+  return { usernames };
+}
+
+/**
+ * Whether the options ask for a scripted run instead of the interactive UI
+ */
+export function isHeadless(options: CliOptions): boolean {
+  return Boolean(options.user || options.org || options.format || options.out);
+}
+
+/**
+ * Map an error thrown by the data pipeline to a process exit code
+ */
+export function exitCodeForError(error: unknown): ExitCodeValue {
+  if (error instanceof CliUsageError || error instanceof MissingConfigurationError) return ExitCode.Usage;
+  if (error instanceof NotFoundError) return ExitCode.NotFound;
+  if (error instanceof UnauthorizedError) return ExitCode.AuthRequired;
+  if (error instanceof RateLimitedError) return ExitCode.RateLimited;
+  if (error instanceof NoDataError) return ExitCode.NoData;
+  if (error instanceof InsufficientScopesError) return ExitCode.InsufficientScopes;
+  if (error instanceof NetworkError) return ExitCode.Network;
+  if (error instanceof OfflineCacheMissError) return ExitCode.OfflineCacheMiss;
+
+  return ExitCode.Error;
+}
+
+interface PeriodArgs {
+  year?: string;
+  from?: string;
+  to?: string;
+  quarter?: string;
+  'fiscal-year'?: string;
+  'fiscal-start'?: string;
+  last?: string;
+}
+
+/**
+ * Resolve the mutually exclusive period flags into a single year or date range
+ */
+function parsePeriod(values: PeriodArgs): Period | undefined {
+  const given = (['year', 'from', 'quarter', 'fiscal-year', 'last'] as const).filter((flag) => values[flag] !== undefined);
+
+  if (given.length > 1) {
+    throw new CliUsageError(`Options ${given.map((flag) => `--${flag}`).join(', ')} cannot be combined. Pick one period.`);
+  }
+  if (values.to !== undefined && values.from === undefined) {
+    throw new CliUsageError('--to requires --from.');
+  }
+  if (values['fiscal-start'] !== undefined && values['fiscal-year'] === undefined) {
+    throw new CliUsageError('--fiscal-start requires --fiscal-year.');
+  }
+
+  if (values.year !== undefined) {
+    return parseYear(values.year);
+  }
+
+  try {
+    let range: DateRange | undefined;
+
+    if (values.from !== undefined) {
+      range = customRange(values.from, values.to ?? toIsoDate(new Date()));
+    } else if (values.quarter !== undefined) {
+      range = parseQuarter(values.quarter);
+    } else if (values['fiscal-year'] !== undefined) {
+      const startMonth = values['fiscal-start'] !== undefined ? Number(values['fiscal-start']) : undefined;
+      range = fiscalYearRange(parseYear(values['fiscal-year'], '--fiscal-year'), startMonth);
+    } else if (values.last !== undefined) {
+      range = lastDaysRange(Number(values.last));
+    }
+
+    if (range) {
+      validateRange(range);
+    }
+    return range;
+  } catch (error) {
+    if (error instanceof CliUsageError) throw error;
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parseYear(value: string, flag: string = '--year'): number {
+  const year = Number(value);
+  const currentYear = new Date().getFullYear();
+
+  // GitHub launched in 2008, so there is nothing to wrap before that
+  if (!Number.isInteger(year) || year < 2008 || year > currentYear) {
+    throw new CliUsageError(`Invalid ${flag} "${value}". Expected a year between 2008 and ${currentYear}`);
+  }
+
+  return year;
+}
@@ -0,0 +1,407 @@
+import type { GitHubUser, Commit, Repository, ContributionDay, Period, Identity, SourceBreakdown, LanguageWeighting } from './types.js';
+import { resolveGitHubHost, type GitHubHost } from './utils/github-host.js';
+import type { DiskCache } from './utils/disk-cache.js';
+import { discoverSourceToken } from './utils/token-discovery.js';
+import { NoDataError, UnauthorizedError } from './errors.js';
+import { GitHubGraphQLClient } from './github-graphql.js';
+import { GitHubClient } from './github.js';
+import { LocalGitClient } from './local-git.js';
+import { GitLabClient, DEFAULT_GITLAB_URL } from './gitlab.js';
+import { GiteaClient } from './gitea.js';
+
+export interface CommitOptions {
+  // Exact commit times, where a source needs extra requests for them (GitHub GraphQL); without them
+  // commits may be date-only. Only the main wrap's punch card and peak hour need them.
+  withCommitTimes?: boolean;
+}
+
+/**
+ * Everything the wrapped pipeline reads about one person for one period.
+ * Implemented by the GitHub GraphQL and REST clients, GitLab, Gitea and the local git reader;
+ * new providers only need to implement this and register a factory below.
+ */
+export interface WrappedDataSource {
+  readonly id: string; // Registry id, e.g. "github-graphql"
+  readonly displayName: string; // For progress messages, e.g. "GitHub"
+  readonly languageWeighting: LanguageWeighting; // How getLanguages splits commits across languages
+
+  getUser(period?: Period): Promise<GitHubUser>;
+  getRepositories(period?: Period): Promise<Repository[]>;
+  /** @throws NoDataError when the period is empty */
+  getCommitsForYear(period?: Period, options?: CommitOptions): Promise<Commit[]>;
+  getPullRequests(period?: Period): Promise<number>;
+  getIssues(period?: Period): Promise<number>;
+  /** Commits per language, each commit split as languageWeighting describes */
+  getLanguages(period?: Period): Promise<{ [key: string]: number }>;
+  getContributionCalendar(period?: Period): Promise<ContributionDay[]>;
+  /** undefined when the source cannot tell; the analyzer then estimates from repository sizes */
+  getTotalLinesChanged(period?: Period): Promise<{ additions: number; deletions: number; total: number } | undefined>;
+  getCodeReviewCount(period?: Period): Promise<number>;
+  getTotalCommitCount(period?: Period): Promise<number>;
+}
+
+/**
+ * How each weighting splits commits across languages, the one wording for labels and prose alike
+ */
+export const LANGUAGE_WEIGHTING_SPLITS: Record<LanguageWeighting, string> = {
+  'repo-bytes': "split by each repository's language sizes",
+  'lines-changed': 'split by lines changed per language',
+  'primary-language': "counted toward each repository's primary language",
+  mixed: 'split differently per identity',
+};
+
+/**
+ * What the language percentages of a wrap measure, for labels, e.g. "share of commits, split by lines changed per language"
+ */
+export function describeLanguageWeighting(weighting: LanguageWeighting): string {
+  return `share of commits, ${LANGUAGE_WEIGHTING_SPLITS[weighting]}`;
+}
+
+export interface DataSourceOptions {
+  token?: string;
+  host?: GitHubHost;
+  cache?: DiskCache;
+  onProgress?: (message: string) => void;
+  paths?: string[]; // Local repositories, for the "local" source
+  emails?: string[]; // Author emails, for the "local" source
+  instanceUrl?: string; // Self-hosted instance, for the "gitlab" and "gitea" sources
+}
+
+export type DataSourceFactory = (login: string, options: DataSourceOptions) => WrappedDataSource;
+
+export const DEFAULT_DATA_SOURCE = 'github';
+
+const registry = new Map<string, DataSourceFactory>();
+
+/**
+ * Make a source selectable by id (replaces an existing registration)
+ */
+export function registerDataSource(id: string, factory: DataSourceFactory): void {
+  registry.set(id, factory);
+}
+
+/**
+ * Ids of every registered source, in registration order
+ */
+export function listDataSources(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Build a source for one login
+ * @throws Error when no source is registered under the id
+ */
+export function createDataSource(id: string, login: string, options: DataSourceOptions = {}): WrappedDataSource {
+  const factory = registry.get(id);
+  if (!factory) {
+    throw new Error(`Unknown data source "${id}". Available: ${listDataSources().join(', ')}`);
+  }
+  return factory(login, options);
+}
+
+/**
+ * Serves every call from `primary` until it fails with an error `shouldFallBack` accepts,
+ * then switches to `fallback` for that call and every later one
+ */
+export class FallbackDataSource implements WrappedDataSource {
+  private usingFallback = false;
+
+  constructor(
+    private primary: WrappedDataSource,
+    private fallback: WrappedDataSource,
+    private shouldFallBack: (error: unknown) => boolean,
+    private onFallback?: () => void
+  ) {}
+
+  get id(): string {
+    return this.usingFallback ? this.fallback.id : this.primary.id;
+  }
+
+  get displayName(): string {
+    return this.primary.displayName;
+  }
+
+  get languageWeighting(): LanguageWeighting {
+    return this.usingFallback ? this.fallback.languageWeighting : this.primary.languageWeighting;
+  }
+
+  getUser(period?: Period) {
+    return this.call((source) => source.getUser(period));
+  }
+
+  getRepositories(period?: Period) {
+    return this.call((source) => source.getRepositories(period));
+  }
+
+  getCommitsForYear(period?: Period, options?: CommitOptions) {
+    return this.call((source) => source.getCommitsForYear(period, options));
+  }
+
+  getPullRequests(period?: Period) {
+    return this.call((source) => source.getPullRequests(period));
+  }
+
+  getIssues(period?: Period) {
+    return this.call((source) => source.getIssues(period));
+  }
+
+  getLanguages(period?: Period) {
+    return this.call((source) => source.getLanguages(period));
+  }
+
+  getContributionCalendar(period?: Period) {
+    return this.call((source) => source.getContributionCalendar(period));
+  }
+
+  getTotalLinesChanged(period?: Period) {
+    return this.call((source) => source.getTotalLinesChanged(period));
+  }
+
+  getCodeReviewCount(period?: Period) {
+    return this.call((source) => source.getCodeReviewCount(period));
+  }
+
+  getTotalCommitCount(period?: Period) {
+    return this.call((source) => source.getTotalCommitCount(period));
+  }
+
+  private async call<T>(read: (source: WrappedDataSource) => Promise<T>): Promise<T> {
+    if (!this.usingFallback) {
+      try {
+        return await read(this.primary);
+      } catch (error) {
+        if (!this.shouldFallBack(error)) throw error;
+        if (!this.usingFallback) {
+          this.usingFallback = true;
+          this.onFallback?.();
+        }
+      }
+    }
+    return read(this.fallback);
+  }
+}
+
+export interface MergedSourcePart {
+  source: WrappedDataSource;
+  login: string;
+  host: string; // Where the account lives, e.g. "gitlab.example.com"
+}
+
+/**
+ * Several accounts read as one person: calendars are summed per day, repositories and
+ * languages unioned and counts added up, so the analyzer recomputes streaks on the merged calendar.
+ * The first part is the primary identity whose profile is shown.
+ */
+export class MergedDataSource implements WrappedDataSource {
+  readonly id = 'merged';
+
+  constructor(readonly parts: MergedSourcePart[]) {
+    if (parts.length === 0) {
+      throw new Error('A merged data source needs at least one identity.');
+    }
+  }
+
+  get displayName(): string {
+    return [...new Set(this.parts.map((part) => part.source.displayName))].join(' + ');
+  }
+
+  // Every source counts commits, so their language stats add up; only the split may differ
+  get languageWeighting(): LanguageWeighting {
+    const weightings = new Set(this.parts.map((part) => part.source.languageWeighting));
+    return weightings.size === 1 ? [...weightings][0] : 'mixed';
+  }
+
+  async getUser(period?: Period): Promise<GitHubUser> {
+    const users = await Promise.all(this.parts.map((part) => part.source.getUser(period)));
+    const [primary] = users;
+
+    return {
+      ...primary,
+      name: primary.name || users.find((user) => user.name)?.name || null,
+      avatar_url: primary.avatar_url || users.find((user) => user.avatar_url)?.avatar_url || null,
+      bio: primary.bio || users.find((user) => user.bio)?.bio || null,
+      public_repos: users.reduce((sum, user) => sum + user.public_repos, 0),
+      followers: users.reduce((sum, user) => sum + user.followers, 0),
+      following: users.reduce((sum, user) => sum + user.following, 0),
+      // The oldest account, so trend reports start at the first one
+      created_at: users.map((user) => user.created_at).sort()[0],
+    };
+  }
+
+  // Two identities on one host can both list a repository; the same name on another host is a different one
+  async getRepositories(period?: Period): Promise<Repository[]> {
+    const lists = await Promise.all(this.parts.map((part) => part.source.getRepositories(period)));
+    const repos = new Map<string, Repository>();
+
+    for (const [index, list] of lists.entries()) {
+      for (const repo of list) {
+        const key = `${this.parts[index].host}/${repo.full_name}`;
+        if (!repos.has(key)) repos.set(key, repo);
+      }
+    }
+
+    return [...repos.values()];
+  }
+
+  // An identity without commits in the period is fine as long as another one has some
+  async getCommitsForYear(period?: Period, options?: CommitOptions): Promise<Commit[]> {
+    const lists = await Promise.all(this.parts.map((part) =>
+      part.source.getCommitsForYear(period, options).catch((error: unknown) => {
+        if (error instanceof NoDataError) return [];
+        throw error;
+      })
+    ));
+    const commits = lists.flat();
+
+    if (commits.length === 0) {
+      const logins = this.parts.map((part) => part.login).join(', ');
+      throw new NoDataError(`No commits found for ${logins} in the selected period. Try a different period or identities.`);
+    }
+
+    return commits;
+  }
+
+  async getPullRequests(period?: Period): Promise<number> {
+    return this.sum((source) => source.getPullRequests(period));
+  }
+
+  async getIssues(period?: Period): Promise<number> {
+    return this.sum((source) => source.getIssues(period));
+  }
+
+  async getLanguages(period?: Period): Promise<{ [key: string]: number }> {
+    const stats = await Promise.all(this.parts.map((part) => part.source.getLanguages(period)));
+    const languageStats: { [key: string]: number } = {};
+
+    for (const languages of stats) {
+      for (const [language, value] of Object.entries(languages)) {
+        languageStats[language] = (languageStats[language] || 0) + value;
+      }
+    }
+
+    return languageStats;
+  }
+
+  async getContributionCalendar(period?: Period): Promise<ContributionDay[]> {
+    const calendars = await Promise.all(this.parts.map((part) => part.source.getContributionCalendar(period)));
+    const counts = new Map<string, number>();
+
+    for (const day of calendars.flat()) {
+      counts.set(day.date, (counts.get(day.date) || 0) + day.count);
+    }
+
+    return [...counts]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, count]) => ({ date, count }));
+  }
+
+  // Sources that cannot tell are left out; undefined only when none of them can
+  async getTotalLinesChanged(period?: Period): Promise<{ additions: number; deletions: number; total: number } | undefined> {
+    const results = await Promise.all(this.parts.map((part) => part.source.getTotalLinesChanged(period)));
+    const known = results.filter((result): result is { additions: number; deletions: number; total: number } => result !== undefined);
+    if (known.length === 0) return undefined;
+
+    return {
+      additions: known.reduce((sum, result) => sum + result.additions, 0),
+      deletions: known.reduce((sum, result) => sum + result.deletions, 0),
+      total: known.reduce((sum, result) => sum + result.total, 0),
+    };
+  }
+
+  async getCodeReviewCount(period?: Period): Promise<number> {
+    return this.sum((source) => source.getCodeReviewCount(period));
+  }
+
+  async getTotalCommitCount(period?: Period): Promise<number> {
+    return this.sum((source) => source.getTotalCommitCount(period));
+  }
+
+  /**
+   * Totals per identity, for the breakdown slide. Reuses what the merged getters already fetched.
+   */
+  async getBreakdown(period?: Period): Promise<SourceBreakdown[]> {
+    return Promise.all(this.parts.map(async ({ source, login, host }) => {
+      const [totalCommits, totalPRs, totalIssues, calendar] = await Promise.all([
+        source.getTotalCommitCount(period),
+        source.getPullRequests(period),
+        source.getIssues(period),
+        source.getContributionCalendar(period),
+      ]);
+
+      return {
+        source: source.displayName,
+        login,
+        host,
+        totalCommits,
+        totalPRs,
+        totalIssues,
+        totalContributions: calendar.reduce((sum, day) => sum + day.count, 0),
+      };
+    }));
+  }
+
+  private async sum(read: (source: WrappedDataSource) => Promise<number>): Promise<number> {
+    const values = await Promise.all(this.parts.map((part) => read(part.source)));
+    return values.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+/**
+ * Build one merged source from several identities. Each identity finds its own token
+ * (GitHub's chain for its host, GITLAB_TOKEN or GITEA_TOKEN for the others).
+ */
+export function createMergedDataSource(identities: Identity[], options: Omit<DataSourceOptions, 'token' | 'host' | 'instanceUrl'> = {}): MergedDataSource {
+  return new MergedDataSource(identities.map((identity) => {
+    const isGitHub = identity.source.startsWith('github');
+    const host = isGitHub ? resolveGitHubHost(identity.instance) : undefined;
+    const instanceUrl = isGitHub ? undefined : identity.instance;
+    const token = discoverSourceToken(identity.source, host || resolveGitHubHost())?.token;
+
+    return {
+      source: createDataSource(identity.source, identity.login, { ...options, token, host, instanceUrl }),
+      login: identity.login,
+      host: host ? host.hostname : new URL(instanceUrl || DEFAULT_GITLAB_URL).host,
+    };
+  }));
+}
+
+// GraphQL always needs a token; without one, the REST API still serves public data
+function needsAuthentication(error: unknown): boolean {
+  return error instanceof UnauthorizedError;
+}
+
+registerDataSource('github', (login, options) => {
+  const graphqlSource = new GitHubGraphQLClient(login, options.token, options);
+  if (options.token) {
+    return graphqlSource;
+  }
+  return new FallbackDataSource(
+    graphqlSource,
+    new GitHubClient(login, undefined, options),
+    needsAuthentication,
+    () => options.onProgress?.('No token, using the REST API instead (public data only, lower rate limit)...')
+  );
+});
+registerDataSource('github-graphql', (login, options) => new GitHubGraphQLClient(login, options.token, options));
+registerDataSource('github-rest', (login, options) => new GitHubClient(login, options.token, options));
+registerDataSource('gitlab', (login, options) => new GitLabClient(login, options.token, {
+  baseUrl: options.instanceUrl,
+  cache: options.cache,
+  onProgress: options.onProgress,
+}));
+registerDataSource('gitea', (login, options) => {
+  if (!options.instanceUrl) {
+    throw new Error('The gitea data source needs the instance URL (--instance <url>).');
+  }
+  return new GiteaClient(login, options.token, {
+    baseUrl: options.instanceUrl,
+    cache: options.cache,
+    onProgress: options.onProgress,
+  });
+});
+registerDataSource('local', (login, options) => {
+  if (!options.paths?.length) {
+    throw new Error('The local data source needs at least one repository path (--local <path>).');
+  }
+  return new LocalGitClient(options.paths, { emails: options.emails, username: login, onProgress: options.onProgress });
+});
@@ -0,0 +1,213 @@
+import { tokenSettingsUrl, type GitHubHost } from './utils/github-host.js';
+
+/**
+ * Errors the data sources throw, so the UI and CLI can pick a screen, remediation
+ * and exit code by type instead of matching message text. Messages stay user-facing.
+ */
+export class WrappedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WrappedError';
+  }
+}
+
+// The user, organization, team or repository path does not exist (or is hidden from this token)
+export class NotFoundError extends WrappedError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// No token where one is required, or the token was rejected
+export class UnauthorizedError extends WrappedError {
+  constructor(message: string, readonly tokenMissing = false) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class RateLimitedError extends WrappedError {
+  constructor(message: string, readonly resetAt?: Date) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// The token works but lacks scopes the request needs
+export class InsufficientScopesError extends WrappedError {
+  constructor(message: string, readonly missingScopes: string[] = []) {
+    super(message);
+    this.name = 'InsufficientScopesError';
+  }
+}
+
+// The host could not be reached at all
+export class NetworkError extends WrappedError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Everything worked, but there is nothing to wrap in the period
+export class NoDataError extends WrappedError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoDataError';
+  }
+}
+
+// A setting the source cannot do without is missing, e.g. the author email for --local
+export class MissingConfigurationError extends WrappedError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MissingConfigurationError';
+  }
+}
+
+// --offline was given and the disk cache has no entry for the request
+export class OfflineCacheMissError extends WrappedError {
+  constructor(subject: string, period?: string) {
+    super(`No cached data for ${subject}${period ? ` in ${period}` : ''}. Run once without --offline to download it first.`);
+    this.name = 'OfflineCacheMissError';
+  }
+}
+
+// Node and Bun report DNS, connection and TLS failures with these codes on the error or its cause
+const NETWORK_ERROR_CODES = ['ENOTFOUND', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ConnectionRefused', 'ConnectionClosed', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE'];
+
+/**
+ * Whether a thrown value is a failed connection rather than an HTTP error response.
+ * Covers plain `fetch` failures and Octokit's wrapping of them.
+ */
+export function isNetworkFailure(error: unknown): boolean {
+  for (let current = error; isObject(current); current = 'cause' in current ? current.cause : undefined) {
+    if ('code' in current && typeof current.code === 'string' && NETWORK_ERROR_CODES.includes(current.code)) return true;
+    // Node's fetch() rejects with this TypeError and puts the code on its cause
+    if (current instanceof TypeError && current.message === 'fetch failed') return true;
+  }
+  return false;
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Reset time from rate limit headers (GitHub's X-RateLimit-Reset, GitLab's RateLimit-Reset, Retry-After)
+ */
+export function rateLimitResetFrom(headers: Headers | { [name: string]: string | number | undefined } | undefined): Date | undefined {
+  if (!headers) return undefined;
+  const get = (name: string) => (headers instanceof Headers ? headers.get(name) : headers[name]) ?? undefined;
+
+  const reset = Number(get('x-ratelimit-reset') ?? get('ratelimit-reset'));
+  if (reset > 0) return new Date(reset * 1000);
+
+  const retryAfter = Number(get('retry-after'));
+  if (retryAfter > 0) return new Date(Date.now() + retryAfter * 1000);
+
+  return undefined;
+}
+
+/**
+ * "resets in 12 minutes" style suffix for rate limit messages, empty when unknown
+ */
+export function describeReset(resetAt?: Date): string {
+  if (!resetAt) return '';
+  const minutes = Math.max(Math.ceil((resetAt.getTime() - Date.now()) / 60000), 1);
+  return ` It resets in ${minutes} minute${minutes === 1 ? '' : 's'} (${resetAt.toLocaleTimeString()}).`;
+}
+
+interface GitHubErrorContext {
+  host: GitHubHost;
+  hasToken: boolean;
+  notFound: string; // Message when the user or organization does not exist
+  requiredScopes: string; // For the invalid token message, e.g. "read:user"
+}
+
+/**
+ * Map a failure from Octokit (REST `RequestError` or GraphQL `GraphqlResponseError`)
+ * onto the typed errors above. Already-typed errors pass through unchanged.
+ */
+export function toGitHubError(error: unknown, context: GitHubErrorContext): Error {
+  if (error instanceof WrappedError) return error;
+
+  const { host, hasToken } = context;
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const errorStatus = statusOf(error);
+  const graphqlErrors = graphqlErrorsOf(error);
+  const headers = headersOf(error);
+
+  if (isNetworkFailure(error)) {
+    return new NetworkError(`Could not reach ${host.hostname}. Check your internet connection${host.isEnterprise ? ' or VPN' : ''} and try again.`);
+  }
+
+  if (graphqlErrors.some((graphqlError) => graphqlError.type === 'NOT_FOUND') || errorStatus === 404) {
+    return new NotFoundError(context.notFound);
+  }
+
+  const scopesError = graphqlErrors.find((graphqlError) => graphqlError.type === 'INSUFFICIENT_SCOPES');
+  if (scopesError) {
+    // "... requires one of the following scopes: ['read:org'], but your token has only been granted the: ['repo'] scopes."
+    const required = scopesError.message?.match(/following scopes: \[([^\]]*)\]/)?.[1] || '';
+    const missingScopes = required.split(',').map((scope) => scope.trim().replace(/^'|'$/g, '')).filter(Boolean);
+    return new InsufficientScopesError(
+      `Your GitHub token is missing the ${missingScopes.join(', ') || context.requiredScopes} scope.\n\nUpdate it at: ${tokenSettingsUrl(host)}`,
+      missingScopes
+    );
+  }
+
+  if (errorStatus === 401) {
+    return hasToken
+      ? new UnauthorizedError(`Invalid GitHub token. Please check your token and try again.
+
+Get a new token at: ${tokenSettingsUrl(host)}
+Required scope: ${context.requiredScopes}`)
+      : new UnauthorizedError(`A GitHub token is required for this data.\n\nCreate one at: ${tokenSettingsUrl(host)}`, true);
+  }
+
+  const remaining = headers instanceof Headers ? headers.get('x-ratelimit-remaining') : headers?.['x-ratelimit-remaining'];
+  const rateLimited = graphqlErrors.some((graphqlError) => graphqlError.type === 'RATE_LIMITED')
+    || errorStatus === 429
+    || (errorStatus === 403 && (String(remaining) === '0' || /rate limit/i.test(errorMessage)));
+  if (rateLimited) {
+    const resetAt = rateLimitResetFrom(headers);
+    return new RateLimitedError(
+      `GitHub API rate limit exceeded.${describeReset(resetAt)}${hasToken ? '' : ' A GitHub token raises the limit.'}`,
+      resetAt
+    );
+  }
+
+  if (errorStatus === 403) {
+    return new InsufficientScopesError(`GitHub denied access: ${errorMessage}\n\nCheck your token's scopes at: ${tokenSettingsUrl(host)}`);
+  }
+
+  return new Error(`Failed to fetch data: ${errorMessage}`);
+}
+
+// HTTP status of a REST `RequestError`
+function statusOf(error: unknown): number | undefined {
+  return isObject(error) && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+}
+
+// The `errors` array of a `GraphqlResponseError`, empty for anything else
+function graphqlErrorsOf(error: unknown): Array<{ type?: string; message?: string }> {
+  if (!isObject(error) || !('errors' in error) || !Array.isArray(error.errors)) return [];
+
+  return error.errors.filter(isObject).map((graphqlError) => ({
+    type: 'type' in graphqlError && typeof graphqlError.type === 'string' ? graphqlError.type : undefined,
+    message: 'message' in graphqlError && typeof graphqlError.message === 'string' ? graphqlError.message : undefined,
+  }));
+}
+
+// Response headers: `error.response.headers` on REST errors, `error.headers` on GraphQL ones
+function headersOf(error: unknown): Headers | { [name: string]: string | number | undefined } | undefined {
+  if (!isObject(error)) return undefined;
+
+  const response = 'response' in error && isObject(error.response) ? error.response : undefined;
+  const fromResponse = response && 'headers' in response ? response.headers : undefined;
+  const headers = fromResponse ?? ('headers' in error ? error.headers : undefined);
+  if (headers instanceof Headers) return headers;
+  return isObject(headers) ? headers as { [name: string]: string | number | undefined } : undefined;
+}
@@ -0,0 +1,48 @@
+import type { TrendReport, TeamWrappedStats } from './types.js';
+
+const TREND_COLUMNS = ['year', 'commits', 'pull_requests', 'issues', 'reviews', 'longest_streak', 'top_language'];
+const TEAM_COLUMNS = ['login', 'commits', 'pull_requests', 'issues', 'reviews', 'longest_streak', 'top_language', 'achievements'];
+
+/**
+ * Render a trend report as CSV, one row per year, for spreadsheets and plotting tools
+ */
+export function formatTrendAsCsv(trend: TrendReport): string {
+  const rows = trend.years.map((year) => [
+    year.year,
+    year.totalCommits,
+    year.totalPRs,
+    year.totalIssues,
+    year.totalReviews || 0,
+    year.longestStreak,
+    year.topLanguages[0]?.name ?? '',
+  ]);
+
+  return [TREND_COLUMNS, ...rows].map((row) => row.map(escapeCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Render a team wrap as CSV, one row per member, in commit leaderboard order
+ */
+export function formatTeamAsCsv(team: TeamWrappedStats): string {
+  const byLogin = new Map(team.members.map((member) => [member.stats.user.login, member]));
+  const rows = team.leaderboards.commits.map(({ login }) => {
+    const { stats, totalReviews } = byLogin.get(login)!;
+    return [
+      login,
+      stats.totalCommits,
+      stats.totalPRs,
+      stats.totalIssues,
+      totalReviews,
+      stats.longestStreak,
+      stats.topLanguages[0]?.name ?? '',
+      stats.achievements.filter((achievement) => achievement.unlocked).length,
+    ];
+  });
+
+  return [TEAM_COLUMNS, ...rows].map((row) => row.map(escapeCell).join(',')).join('\n') + '\n';
+}
+
+function escapeCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import type { WrappedStats, ComparisonStats, TrendReport, OrgWrappedStats, TeamWrappedStats } from './types.js';
+import { calculateScore, determineTier, type Tier } from './tier-calculator.js';
+
+/**
+ * Version of the JSON document format, described by schema/wrapped-stats.schema.json.
+ * Bump the minor version when adding fields and the major version when renaming
+ * or removing them, and move the schema's $id to the new tag.
+ */
+export const WRAPPED_SCHEMA_VERSION = '2.0.0';
+
+// Pinned to the schema-v<version> tag, so old documents keep pointing at the schema they were written against
+export const WRAPPED_SCHEMA_URL =
+  `https://raw.githubusercontent.com/d3varaja/gh-wrapped-cli/schema-v${WRAPPED_SCHEMA_VERSION}/schema/wrapped-stats.schema.json`;
+
+export interface WrappedDocument {
+  $schema: string;
+  schemaVersion: string;
+  generatedAt: string;
+  tier: {
+    name: Tier;
+    score: number;
+  };
+  stats: WrappedStats;
+  comparison?: ComparisonStats;
+  trend?: TrendReport;
+}
+
+// Organization wraps share the envelope but carry `org` instead of `stats` and `tier`
+export interface OrgWrappedDocument {
+  $schema: string;
+  schemaVersion: string;
+  generatedAt: string;
+  org: OrgWrappedStats;
+}
+
+// Team wraps carry `team`, which holds every member's full stats
+export interface TeamWrappedDocument {
+  $schema: string;
+  schemaVersion: string;
+  generatedAt: string;
+  team: TeamWrappedStats;
+}
+
+/**
+ * Wrap stats in the versioned document envelope
+ */
+export function toWrappedDocument(stats: WrappedStats, comparison?: ComparisonStats, trend?: TrendReport): WrappedDocument {
+  const score = calculateScore(stats);
+
+  return {
+    $schema: WRAPPED_SCHEMA_URL,
+    schemaVersion: WRAPPED_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    tier: {
+      name: determineTier(score),
+      score,
+    },
+    stats,
+    ...(comparison ? { comparison } : {}),
+    ...(trend ? { trend } : {}),
+  };
+}
+
+/**
+ * Serialize stats as a versioned JSON document
+ */
+export function serializeWrappedStats(stats: WrappedStats, comparison?: ComparisonStats, trend?: TrendReport): string {
+  return JSON.stringify(toWrappedDocument(stats, comparison, trend), null, 2) + '\n';
+}
+
+/**
+ * Serialize organization stats as a versioned JSON document
+ */
+export function serializeOrgWrappedStats(stats: OrgWrappedStats): string {
+  const document: OrgWrappedDocument = {
+    $schema: WRAPPED_SCHEMA_URL,
+    schemaVersion: WRAPPED_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    org: stats,
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/**
+ * Serialize team stats as a versioned JSON document
+ */
+export function serializeTeamWrappedStats(stats: TeamWrappedStats): string {
+  const document: TeamWrappedDocument = {
+    $schema: WRAPPED_SCHEMA_URL,
+    schemaVersion: WRAPPED_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    team: stats,
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/**
+ * Write the JSON document to disk
+ * @param outputPath - Where to write the file (defaults to a generated name in the cwd)
+ * @returns Absolute path of the written file
+ */
+export async function exportJSON(
+  stats: WrappedStats,
+  outputPath?: string,
+  comparison?: ComparisonStats,
+  trend?: TrendReport
+): Promise<string> {
+  const filename = `github-wrapped-${stats.year}-${stats.user.login}.json`;
+  const targetPath = outputPath ? resolve(outputPath) : join(process.cwd(), filename);
+
+  await fs.writeFile(targetPath, serializeWrappedStats(stats, comparison, trend), 'utf-8');
+
+  return targetPath;
+}
@@ -1,32 +1,41 @@
 import { chromium, Browser } from 'playwright';
 import { promises as fs, readFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import type { WrappedStats } from './types.js';
+import type { WrappedStats, OrgWrappedStats } from './types.js';
 import { calculateScore, determineTier, getTierName, type Tier } from './tier-calculator.js';
 import { fetchAvatarAsBase64 } from './utils/avatar-fetcher.js';
-import { injectDataIntoTemplate } from './utils/html-injector.js';
+import { injectDataIntoTemplate, injectOrgDataIntoTemplate } from './utils/html-injector.js';
 import { getBrowserInstaller } from './utils/browser-installer.js';
+import { isHostUrl, type GitHubHost } from './utils/github-host.js';
+
+export interface PlaywrightExporterOptions {
+  host?: GitHubHost; // Where the avatar is served from
+  token?: string; // Only sent to the host itself, for private-mode Enterprise avatars
+  punchCard?: boolean; // Draw the hour-by-weekday punch card on user cards
+}
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-export class PlaywrightExporter {
-  private stats: WrappedStats;
-  private tier: Tier;
-  private score: number;
+/**
+ * Shared Playwright plumbing for rendering an HTML card template to a PNG
+ */
+abstract class CardExporter {
   private browser: Browser | null = null;
+  protected avatarToken?: string;
 
-  constructor(stats: WrappedStats) {
-    this.stats = stats;
-    this.score = calculateScore(stats);
-    this.tier = determineTier(this.score);
+  constructor(avatarUrl: string | null, options: PlaywrightExporterOptions) {
+    this.avatarToken = options.host?.isEnterprise && options.token && avatarUrl && isHostUrl(options.host, avatarUrl)
+      ? options.token
+      : undefined;
   }
 
   /**
    * Main export method - generates PNG from HTML template using Playwright
+   * @param outputPath - Where to write the PNG (defaults to a generated name in the cwd)
    */
-  async exportPNG(onProgress?: (status: string) => void): Promise<string> {
+  async exportPNG(onProgress?: (status: string) => void, outputPath?: string): Promise<string> {
     try {
       // Check browser installation status
       const browserInstaller = getBrowserInstaller();
@@ -41,36 +50,17 @@ export class PlaywrightExporter {
         await browserInstaller.ensureReady();
       }
 
-      onProgress?.('Loading template and fetching avatar...');
-      const [htmlTemplate, avatarBase64] = await Promise.all([
-        Promise.resolve(readFileSync(this.getTemplatePath(this.tier), 'utf-8')),
-        fetchAvatarAsBase64(
-          this.stats.user.avatar_url,
-          (msg) => onProgress?.(`${msg}`)
-        )
-      ]);
-
-      onProgress?.('Preparing data...');
-      const htmlContent = injectDataIntoTemplate(htmlTemplate, {
-        username: this.stats.user.login,
-        prs: this.stats.totalPRs,
-        commits: this.stats.totalCommits,
-        repos: this.stats.totalRepos,
-        archetype: this.stats.archetype.name,
-        randomId: Math.floor(Math.random() * 9000) + 1000,
-        avatarBase64,
-        tier: this.tier
-      });
+      const htmlContent = await this.buildHTML(onProgress);
 
       onProgress?.('Rendering image...');
       const screenshotBuffer = await this.renderHTMLToPNG(htmlContent, onProgress);
 
       onProgress?.('Saving file...');
-      const outputPath = await this.saveFile(screenshotBuffer);
+      const savedPath = await this.saveFile(screenshotBuffer, outputPath);
 
       await this.closeBrowser();
 
-      return outputPath;
+      return savedPath;
     } catch (error) {
       await this.closeBrowser();
 
@@ -86,14 +76,26 @@ export class PlaywrightExporter {
     }
   }
 
+  /**
+   * Load the template and fill in the data
+   */
+  protected abstract buildHTML(onProgress?: (status: string) => void): Promise<string>;
 
   /**
-   * Get template file path for a specific tier with validation
+   * File name used when no output path is given
    */
-  private getTemplatePath(tier: Tier): string {
+  protected abstract defaultFilename(): string;
+
+  // Viewport height; taller cards need more room so the screenshot is not cut off
+  protected viewportHeight = 680;
+
+  /**
+   * Get template file path (a tier name or "org") with validation
+   */
+  protected getTemplatePath(template: string): string {
     const paths = [
-      join(__dirname, 'templates', `${tier}.html`),
-      join(__dirname, '../src/templates', `${tier}.html`)
+      join(__dirname, 'templates', `${template}.html`),
+      join(__dirname, '../src/templates', `${template}.html`)
     ];
 
     for (const path of paths) {
@@ -109,7 +111,7 @@ export class PlaywrightExporter {
     }
 
     throw new Error(
-      `Template not found for tier "${tier}".\n` +
+      `Template not found: "${template}".\n` +
       `Searched paths:\n${paths.map(p => `  - ${p}`).join('\n')}`
     );
   }
@@ -132,7 +134,7 @@ export class PlaywrightExporter {
     });
 
     const page = await this.browser.newPage();
-    await page.setViewportSize({ width: 440, height: 680 });
+    await page.setViewportSize({ width: 440, height: this.viewportHeight });
 
     onProgress?.('Loading page...');
     await page.setContent(htmlContent, {
@@ -179,9 +181,8 @@ export class PlaywrightExporter {
   /**
    * Save PNG buffer to file (async)
    */
-  private async saveFile(buffer: Buffer): Promise<string> {
-    const filename = `github-wrapped-${this.stats.year}-${this.stats.user.login}-${this.tier}.png`;
-    const outputPath = join(process.cwd(), filename);
+  private async saveFile(buffer: Buffer, targetPath?: string): Promise<string> {
+    const outputPath = targetPath ? resolve(targetPath) : join(process.cwd(), this.defaultFilename());
 
     await fs.writeFile(outputPath, buffer);
 
@@ -198,6 +199,53 @@ export class PlaywrightExporter {
     }
   }
 
+}
+
+export class PlaywrightExporter extends CardExporter {
+  private stats: WrappedStats;
+  private tier: Tier;
+  private score: number;
+  private punchCard: boolean;
+
+  constructor(stats: WrappedStats, options: PlaywrightExporterOptions = {}) {
+    super(stats.user.avatar_url, options);
+    this.stats = stats;
+    this.punchCard = options.punchCard ?? false;
+    this.score = calculateScore(stats);
+    this.tier = determineTier(this.score);
+  }
+
+  protected async buildHTML(onProgress?: (status: string) => void): Promise<string> {
+    onProgress?.('Loading template and fetching avatar...');
+    const [htmlTemplate, avatarBase64] = await Promise.all([
+      Promise.resolve(readFileSync(this.getTemplatePath(this.tier), 'utf-8')),
+      fetchAvatarAsBase64(
+        this.stats.user.avatar_url,
+        (msg) => onProgress?.(`${msg}`),
+        this.avatarToken
+      )
+    ]);
+
+    onProgress?.('Preparing data...');
+    return injectDataIntoTemplate(htmlTemplate, {
+      username: this.stats.user.login,
+      prs: this.stats.totalPRs,
+      commits: this.stats.totalCommits,
+      repos: this.stats.totalRepos,
+      archetype: this.stats.archetype.name,
+      randomId: Math.floor(Math.random() * 9000) + 1000,
+      avatarBase64,
+      tier: this.tier,
+      year: this.stats.year,
+      // An empty grid (no commit had a time of day) is left off the card, like the slide
+      punchCard: this.punchCard && this.stats.punchCard.some((hours) => hours.some((count) => count > 0)) ? this.stats.punchCard : undefined
+    });
+  }
+
+  protected defaultFilename(): string {
+    return `github-wrapped-${this.stats.year}-${this.stats.user.login}-${this.tier}.png`;
+  }
+
   /**
    * Get tier information for display
    */
@@ -209,3 +257,53 @@ export class PlaywrightExporter {
     };
   }
 }
+
+/**
+ * Renders the organization card (src/templates/org.html)
+ */
+export class OrgPlaywrightExporter extends CardExporter {
+  private stats: OrgWrappedStats;
+
+  constructor(stats: OrgWrappedStats, options: PlaywrightExporterOptions = {}) {
+    super(stats.org.avatar_url, options);
+    this.stats = stats;
+    this.viewportHeight = 900;
+  }
+
+  protected async buildHTML(onProgress?: (status: string) => void): Promise<string> {
+    onProgress?.('Loading template and fetching avatar...');
+    const [htmlTemplate, avatarBase64] = await Promise.all([
+      Promise.resolve(readFileSync(this.getTemplatePath('org'), 'utf-8')),
+      fetchAvatarAsBase64(
+        this.stats.org.avatar_url,
+        (msg) => onProgress?.(`${msg}`),
+        this.avatarToken
+      )
+    ]);
+
+    onProgress?.('Preparing data...');
+    return injectOrgDataIntoTemplate(htmlTemplate, {
+      orgLogin: this.stats.org.login,
+      commits: this.stats.totalCommits,
+      prs: this.stats.totalPRs,
+      contributors: this.stats.totalContributors,
+      topContributors: this.stats.topContributors.slice(0, 3).map((contributor) => ({
+        name: contributor.login ? `@${contributor.login}` : contributor.name,
+        value: contributor.commits,
+      })),
+      busiestRepos: this.stats.busiestRepos.slice(0, 3).map((repo) => ({ name: repo.name, value: repo.commits })),
+      languages: this.stats.topLanguages.map((lang) => ({
+        name: lang.name,
+        percentage: lang.percentage,
+        color: lang.color || '#858585',
+      })),
+      newRepos: this.stats.newRepos.length,
+      avatarBase64,
+      year: this.stats.year
+    });
+  }
+
+  protected defaultFilename(): string {
+    return `github-wrapped-${this.stats.year}-${this.stats.org.login}-org.png`;
+  }
+}
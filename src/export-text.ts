@@ -0,0 +1,229 @@
+import type { WrappedStats, ComparisonStats, TrendReport, OrgWrappedStats, TeamWrappedStats } from './types.js';
+import { describeLanguageWeighting } from './data-source.js';
+
+/**
+ * Render stats as a plain-text summary for terminals, logs and pipes
+ */
+export function formatStatsAsText(stats: WrappedStats, comparison?: ComparisonStats, trend?: TrendReport): string {
+  const rows: Array<[string, string]> = [
+    ['Commits', formatNumber(stats.totalCommits)],
+    ['Pull requests', formatNumber(stats.totalPRs)],
+    ['Issues', formatNumber(stats.totalIssues)],
+    ['Stars', formatNumber(stats.totalStars)],
+    ['Repositories', formatNumber(stats.totalRepos)],
+    ['Lines changed', formatNumber(stats.totalLinesChanged)],
+    ['Daily average', `${stats.avgCommitsPerDay.toFixed(1)} commits/day`],
+    ['Longest streak', `${stats.longestStreak} days`],
+    ['Current streak', `${stats.currentStreak} days`],
+    ['Peak hour', `${formatHour(stats.peakHour)} (${stats.timeZone})`],
+    ['Busiest day', stats.busiestDay],
+    ['Best month', formatMonth(stats, stats.monthly.bestMonth)],
+    ['Quietest month', formatMonth(stats, stats.monthly.quietestMonth)],
+    ['Most active repo', stats.mostActiveRepo],
+    ['Archetype', `${stats.archetype.emoji} ${stats.archetype.name}`],
+  ];
+
+  const labelWidth = Math.max(...rows.map(([label]) => label.length)) + 2;
+  const lines = [
+    `GitHub Wrapped ${stats.year} - @${stats.user.login}`,
+    stats.dateRange,
+    '',
+    ...rows.map(([label, value]) => `${label.padEnd(labelWidth)}${value}`),
+  ];
+
+  if (stats.sources) {
+    lines.push('', 'Sources');
+    for (const source of stats.sources) {
+      lines.push(
+        `  ${source.source} @${source.login} (${source.host}): ${formatNumber(source.totalCommits)} commits, ` +
+        `${formatNumber(source.totalPRs)} PRs, ${formatNumber(source.totalIssues)} issues`
+      );
+    }
+  }
+
+  if (stats.topLanguages.length > 0) {
+    lines.push('', `Top languages (${describeLanguageWeighting(stats.languageWeighting)})`);
+    for (const lang of stats.topLanguages) {
+      lines.push(`  ${lang.name.padEnd(labelWidth - 2)}${lang.percentage.toFixed(1)}%`);
+    }
+  }
+
+  if (stats.achievements.length > 0) {
+    lines.push('', 'Achievements');
+    for (const achievement of stats.achievements) {
+      lines.push(`  ${achievement.emoji} ${achievement.name} (${achievement.rarity})`);
+    }
+  }
+
+  if (stats.insights.length > 0) {
+    lines.push('', 'Insights');
+    for (const insight of stats.insights) {
+      lines.push(`  ${insight}`);
+    }
+  }
+
+  if (comparison) {
+    const { previous, current, growth } = comparison;
+    const compareRows: Array<[string, number, number, number]> = [
+      ['Commits', previous.totalCommits, current.totalCommits, growth.commits],
+      ['Pull requests', previous.totalPRs, current.totalPRs, growth.prs],
+      ['Issues', previous.totalIssues, current.totalIssues, growth.issues],
+      ['Longest streak', previous.longestStreak, current.longestStreak, growth.streak],
+    ];
+
+    lines.push('', `${previous.label} vs ${current.label}`);
+    for (const [label, before, after, change] of compareRows) {
+      const sign = change > 0 ? '+' : '';
+      lines.push(`  ${label.padEnd(labelWidth - 2)}${formatNumber(before)} -> ${formatNumber(after)} (${sign}${change}%)`);
+    }
+  }
+
+  if (trend) {
+    const columns = ['Year', 'Commits', 'PRs', 'Issues', 'Reviews', 'Streak'];
+    const tableRows = trend.years.map((year) => [
+      String(year.year),
+      formatNumber(year.totalCommits),
+      formatNumber(year.totalPRs),
+      formatNumber(year.totalIssues),
+      formatNumber(year.totalReviews || 0),
+      `${year.longestStreak}d`,
+    ]);
+    const widths = columns.map((column, i) => Math.max(column.length, ...tableRows.map((row) => row[i].length)));
+    const formatRow = (row: string[]) =>
+      '  ' + row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+
+    lines.push('', `Trend ${trend.years[0]?.year ?? ''}-${trend.years[trend.years.length - 1]?.year ?? ''}`);
+    lines.push(formatRow(columns));
+    for (const row of tableRows) {
+      lines.push(formatRow(row));
+    }
+    lines.push(
+      `  Busiest year: ${trend.busiestYear}, longest streak: ${trend.longestStreak.days} days (${trend.longestStreak.year})`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render organization stats as a plain-text summary
+ */
+export function formatOrgStatsAsText(stats: OrgWrappedStats): string {
+  const rows: Array<[string, string]> = [
+    ['Commits', formatNumber(stats.totalCommits)],
+    ['Pull requests', formatNumber(stats.totalPRs)],
+    ['Issues', formatNumber(stats.totalIssues)],
+    ['Active repositories', `${formatNumber(stats.activeRepos)} of ${formatNumber(stats.totalRepos)}`],
+    ['New repositories', formatNumber(stats.newRepos.length)],
+    ['Contributors', formatNumber(stats.totalContributors)],
+  ];
+
+  const labelWidth = Math.max(...rows.map(([label]) => label.length)) + 2;
+  const lines = [
+    `GitHub Wrapped ${stats.year} - ${stats.org.name || stats.org.login} (@${stats.org.login})`,
+    stats.dateRange,
+    '',
+    ...rows.map(([label, value]) => `${label.padEnd(labelWidth)}${value}`),
+  ];
+
+  if (stats.topContributors.length > 0) {
+    lines.push('', 'Top contributors');
+    stats.topContributors.forEach((contributor, i) => {
+      const name = contributor.login ? `@${contributor.login}` : contributor.name;
+      lines.push(`  ${`${i + 1}. ${name}`.padEnd(labelWidth - 2)}${formatNumber(contributor.commits)} commits`);
+    });
+  }
+
+  if (stats.busiestRepos.length > 0) {
+    lines.push('', 'Busiest repositories');
+    for (const repo of stats.busiestRepos) {
+      lines.push(`  ${repo.name.padEnd(labelWidth - 2)}${formatNumber(repo.commits)} commits, ${repo.contributors} ${repo.contributors === 1 ? 'contributor' : 'contributors'}`);
+    }
+  }
+
+  if (stats.topLanguages.length > 0) {
+    lines.push('', 'Language mix (by code size)');
+    for (const lang of stats.topLanguages) {
+      lines.push(`  ${lang.name.padEnd(labelWidth - 2)}${lang.percentage.toFixed(1)}%`);
+    }
+  }
+
+  if (stats.newRepos.length > 0) {
+    lines.push('', 'New repositories');
+    for (const repo of stats.newRepos) {
+      lines.push(`  ${repo.name.padEnd(labelWidth - 2)}${repo.created_at.split('T')[0]}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a team summary: totals, leaderboards, combined languages and collective achievements
+ */
+export function formatTeamStatsAsText(stats: TeamWrappedStats): string {
+  const rows: Array<[string, string]> = [
+    ['Members', formatNumber(stats.members.length)],
+    ['Commits', formatNumber(stats.totals.commits)],
+    ['Pull requests', formatNumber(stats.totals.prs)],
+    ['Issues', formatNumber(stats.totals.issues)],
+    ['Reviews', formatNumber(stats.totals.reviews)],
+  ];
+
+  const labelWidth = Math.max(...rows.map(([label]) => label.length), ...stats.members.map((member) => member.stats.user.login.length + 5)) + 2;
+  const lines = [
+    `GitHub Wrapped ${stats.year} - Team ${stats.name}`,
+    stats.dateRange,
+    '',
+    ...rows.map(([label, value]) => `${label.padEnd(labelWidth)}${value}`),
+  ];
+
+  const boards: Array<[string, TeamWrappedStats['leaderboards']['commits'], string]> = [
+    ['Commits', stats.leaderboards.commits, 'commits'],
+    ['Pull requests', stats.leaderboards.prs, 'PRs'],
+    ['Reviews', stats.leaderboards.reviews, 'reviews'],
+    ['Longest streak', stats.leaderboards.streak, 'days'],
+  ];
+  for (const [title, entries, unit] of boards) {
+    if (entries.length === 0) continue;
+    lines.push('', `Leaderboard: ${title}`);
+    entries.forEach((entry, i) => {
+      lines.push(`  ${`${i + 1}. @${entry.login}`.padEnd(labelWidth - 2)}${formatNumber(entry.value)} ${unit}`);
+    });
+  }
+
+  if (stats.topLanguages.length > 0) {
+    lines.push('', 'Team languages (share of commits)');
+    for (const lang of stats.topLanguages) {
+      lines.push(`  ${lang.name.padEnd(labelWidth - 2)}${lang.percentage.toFixed(1)}%`);
+    }
+  }
+
+  if (stats.achievements.length > 0) {
+    lines.push('', 'Collective achievements');
+    for (const { achievement, holders } of stats.achievements) {
+      lines.push(`  ${achievement.emoji} ${achievement.name} (${holders.length}/${stats.members.length}: ${holders.map((login) => `@${login}`).join(', ')})`);
+    }
+  }
+
+  if (stats.inactiveMembers.length > 0) {
+    lines.push('', `No activity in the period: ${stats.inactiveMembers.map((login) => `@${login}`).join(', ')}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatHour(hour: number): string {
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:00 ${period}`;
+}
+
+function formatMonth(stats: WrappedStats, month: string): string {
+  const total = stats.monthly.months.find((entry) => entry.month === month);
+  return total ? `${total.label} (${formatNumber(total.contributions)} contributions)` : month;
+}
+
+function formatNumber(num: number): string {
+  return num.toLocaleString('en-US');
+}
@@ -0,0 +1,431 @@
+import type { GitHubUser, Repository, Commit, ContributionDay, DateRange, Period } from './types.js';
+import type { WrappedDataSource } from './data-source.js';
+import { periodToRange, validateRange, rangeToDateTimes, isWithinRange, toIsoDate } from './utils/date-range.js';
+import type { DiskCache } from './utils/disk-cache.js';
+import { getRequestScheduler } from './utils/request-scheduler.js';
+import { NotFoundError, UnauthorizedError, RateLimitedError, InsufficientScopesError, NetworkError, NoDataError, OfflineCacheMissError, isNetworkFailure, rateLimitResetFrom, describeReset } from './errors.js';
+
+// Gitea caps `limit` at 50 by default; stop following a single repository after this many pages
+const PAGE_SIZE = 50;
+const MAX_PAGES = 40;
+
+// Part of the disk cache key; bump when the shape of GiteaActivity changes
+const CACHE_SCHEMA = 'gitea-activity-v1';
+
+interface GiteaUser {
+  login: string;
+  full_name: string;
+  avatar_url: string;
+  description?: string;
+  followers_count: number;
+  following_count: number;
+  created: string;
+}
+
+interface GiteaRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  stars_count: number;
+  forks_count: number;
+  language: string;
+  created_at: string;
+  updated_at: string;
+  size: number; // KB
+  owner: { login: string };
+}
+
+interface GiteaCommit {
+  sha: string;
+  commit: {
+    author: { name: string; email: string; date: string };
+    message: string;
+  };
+  author: { login: string } | null; // The linked account, null for unknown emails
+  stats?: { additions: number; deletions: number; total: number };
+}
+
+interface GiteaIssue {
+  user: { login: string };
+  created_at: string;
+}
+
+// Only what the getters need from each repository, to keep cache entries small
+interface GiteaRepositoryActivity {
+  repository: GiteaRepository;
+  languages: { [key: string]: number }; // bytes
+  commits: Array<{ sha: string; name: string; email: string; date: string; message: string; additions: number; deletions: number }>;
+  pullRequests: number;
+  issues: number;
+}
+
+interface GiteaActivity {
+  user: GiteaUser;
+  repositoryCount: number;
+  heatmap: ContributionDay[]; // Per day, for the period only
+  repositories: GiteaRepositoryActivity[];
+}
+
+export interface GiteaClientOptions {
+  baseUrl: string; // Instance URL, e.g. https://forgejo.example.com
+  cache?: DiskCache;
+  onProgress?: (message: string) => void;
+}
+
+class GiteaHttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers?: Headers) {
+    super(message);
+    this.name = 'GiteaHttpError';
+  }
+}
+
+/**
+ * Gitea / Forgejo REST API (v1) client for self-hosted forges.
+ * The contribution calendar comes from the user heatmap; commits, pull requests
+ * and issues are read from the user's own repositories, which is all the API lets
+ * us list per user.
+ */
+export class GiteaClient implements WrappedDataSource {
+  readonly id = 'gitea';
+  readonly displayName = 'Gitea';
+  readonly languageWeighting = 'repo-bytes';
+  private username: string;
+  private token?: string;
+  private baseUrl: string;
+  private hostname: string;
+  private diskCache?: DiskCache;
+  private onProgress?: (message: string) => void;
+  private fetch: typeof fetch;
+  private activityCache: Map<string, Promise<GiteaActivity>> = new Map();
+
+  constructor(username: string, token: string | undefined, options: GiteaClientOptions) {
+    this.username = username;
+    this.token = token;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.diskCache = options.cache;
+    this.onProgress = options.onProgress;
+    this.fetch = getRequestScheduler().createFetch(options.onProgress);
+
+    try {
+      this.hostname = new URL(this.baseUrl).host;
+    } catch {
+      throw new Error(`Invalid Gitea URL "${options.baseUrl}". Expected something like https://forgejo.example.com.`);
+    }
+  }
+
+  async getUser(period: Period = new Date().getFullYear()): Promise<GitHubUser> {
+    const { user, repositoryCount } = await this.getActivity(period);
+
+    return {
+      login: user.login,
+      name: user.full_name || null,
+      avatar_url: user.avatar_url,
+      bio: user.description || null,
+      public_repos: repositoryCount,
+      followers: user.followers_count,
+      following: user.following_count,
+      created_at: user.created,
+    };
+  }
+
+  async getRepositories(period: Period = new Date().getFullYear()): Promise<Repository[]> {
+    const { repositories } = await this.getActivity(period);
+
+    return repositories.map(({ repository }) => ({
+      name: repository.name,
+      full_name: repository.full_name,
+      description: repository.description || null,
+      stargazers_count: repository.stars_count,
+      forks_count: repository.forks_count,
+      language: repository.language || null,
+      created_at: repository.created_at,
+      updated_at: repository.updated_at,
+      size: repository.size,
+    }));
+  }
+
+  async getCommitsForYear(period: Period = new Date().getFullYear()): Promise<Commit[]> {
+    const { repositories } = await this.getActivity(period);
+    const commits: Commit[] = repositories.flatMap(({ repository, commits }) =>
+      commits.map((commit) => ({
+        sha: commit.sha,
+        commit: {
+          author: { name: commit.name, email: commit.email, date: commit.date },
+          message: commit.message,
+        },
+        repository: repository.name,
+      }))
+    );
+
+    if (commits.length === 0) {
+      throw new NoDataError(`No commits found for ${this.username} in ${periodToRange(period).label}. Try a different period or username.`);
+    }
+
+    return commits;
+  }
+
+  async getPullRequests(period: Period = new Date().getFullYear()): Promise<number> {
+    const { repositories } = await this.getActivity(period);
+    return repositories.reduce((sum, repo) => sum + repo.pullRequests, 0);
+  }
+
+  async getIssues(period: Period = new Date().getFullYear()): Promise<number> {
+    const { repositories } = await this.getActivity(period);
+    return repositories.reduce((sum, repo) => sum + repo.issues, 0);
+  }
+
+  // Reviews can only be listed per pull request, one request each
+  async getCodeReviewCount(_period?: Period): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * Each repository's commits spread over its languages by byte share
+   */
+  async getLanguages(period: Period = new Date().getFullYear()): Promise<{ [key: string]: number }> {
+    const { repositories } = await this.getActivity(period);
+    const languageStats: { [key: string]: number } = {};
+
+    for (const { languages, commits } of repositories) {
+      const totalBytes = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+      if (totalBytes === 0 || commits.length === 0) continue;
+
+      for (const [language, bytes] of Object.entries(languages)) {
+        languageStats[language] = (languageStats[language] || 0) + (commits.length * bytes) / totalBytes;
+      }
+    }
+
+    return languageStats;
+  }
+
+  /**
+   * The heatmap, one entry per day. Gitea only keeps about a year of heatmap data,
+   * so older periods are rebuilt from the commits instead.
+   */
+  async getContributionCalendar(period: Period = new Date().getFullYear()): Promise<ContributionDay[]> {
+    const range = periodToRange(period);
+    const { heatmap, repositories } = await this.getActivity(range);
+    const counts = new Map<string, number>();
+
+    if (heatmap.length > 0) {
+      for (const day of heatmap) counts.set(day.date, day.count);
+    } else {
+      for (const { commits } of repositories) {
+        for (const commit of commits) {
+          const day = commit.date.slice(0, 10);
+          counts.set(day, (counts.get(day) || 0) + 1);
+        }
+      }
+    }
+
+    const contributions: ContributionDay[] = [];
+    for (let day = new Date(`${range.from}T00:00:00Z`); toIsoDate(day) <= range.to; day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = toIsoDate(day);
+      contributions.push({ date, count: counts.get(date) || 0 });
+    }
+
+    return contributions;
+  }
+
+  async getTotalLinesChanged(period: Period = new Date().getFullYear()): Promise<{ additions: number; deletions: number; total: number }> {
+    const { repositories } = await this.getActivity(period);
+    let additions = 0;
+    let deletions = 0;
+
+    for (const { commits } of repositories) {
+      for (const commit of commits) {
+        additions += commit.additions;
+        deletions += commit.deletions;
+      }
+    }
+
+    return { additions, deletions, total: additions + deletions };
+  }
+
+  async getTotalCommitCount(period: Period = new Date().getFullYear()): Promise<number> {
+    const { repositories } = await this.getActivity(period);
+    return repositories.reduce((sum, repo) => sum + repo.commits.length, 0);
+  }
+
+  private getActivity(period: Period): Promise<GiteaActivity> {
+    const range = periodToRange(period);
+    const cacheKey = `${range.from}..${range.to}`;
+
+    // Return cached (or in-flight) data if available, so concurrent getters share one fetch
+    const cached = this.activityCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Reject future, reversed or longer-than-a-year windows before hitting the API
+    validateRange(range);
+
+    const request = this.loadActivity(range);
+    this.activityCache.set(cacheKey, request);
+    request.catch(() => this.activityCache.delete(cacheKey));
+
+    return request;
+  }
+
+  private async loadActivity(range: DateRange): Promise<GiteaActivity> {
+    if (!this.diskCache) {
+      return this.fetchActivity(range);
+    }
+
+    const key = this.diskCache.key(this.hostname, this.username, `${range.from}..${range.to}`, CACHE_SCHEMA, this.token);
+    const cached = await this.diskCache.read<GiteaActivity>(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.diskCache.mode === 'offline') {
+      throw new OfflineCacheMissError(this.username, range.label);
+    }
+
+    const activity = await this.fetchActivity(range);
+    await this.diskCache.write(key, activity);
+    return activity;
+  }
+
+  private async fetchActivity(range: DateRange): Promise<GiteaActivity> {
+    try {
+      this.onProgress?.(`Fetching Gitea user ${this.username}...`);
+      const username = encodeURIComponent(this.username);
+      const [{ data: user }, { data: heatmapData }] = await Promise.all([
+        this.request<GiteaUser>(`/users/${username}`),
+        this.request<Array<{ timestamp: number; contributions: number }>>(`/users/${username}/heatmap`),
+      ]);
+
+      // Heatmap entries are 15-minute buckets in Unix seconds
+      const heatmapCounts = new Map<string, number>();
+      for (const entry of heatmapData) {
+        const date = toIsoDate(new Date(entry.timestamp * 1000));
+        if (isWithinRange(date, range)) {
+          heatmapCounts.set(date, (heatmapCounts.get(date) || 0) + entry.contributions);
+        }
+      }
+
+      const ownRepositories = await this.fetchAllPages<GiteaRepository>(`/users/${username}/repos`);
+      // Untouched since the period started, so nothing of ours can be in it
+      const candidates = ownRepositories.filter((repo) => repo.updated_at.slice(0, 10) >= range.from);
+
+      const repositories: GiteaRepositoryActivity[] = [];
+      for (const [index, repository] of candidates.entries()) {
+        this.onProgress?.(`Fetching ${repository.name} (${index + 1}/${candidates.length})...`);
+        repositories.push(await this.fetchRepositoryActivity(repository, range));
+      }
+
+      return {
+        user,
+        repositoryCount: ownRepositories.length,
+        heatmap: [...heatmapCounts].map(([date, count]) => ({ date, count })),
+        repositories: repositories.filter((repo) => repo.commits.length + repo.pullRequests + repo.issues > 0),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorStatus = error instanceof GiteaHttpError ? error.status : undefined;
+
+      if (isNetworkFailure(error)) {
+        throw new NetworkError(`Could not reach ${this.hostname}. Check your internet connection and try again.`);
+      }
+
+      if (errorStatus === 404) {
+        throw new NotFoundError(`Gitea user "${this.username}" not found on ${this.hostname}. Please check the username and try again.`);
+      }
+
+      if (errorStatus === 401) {
+        throw new UnauthorizedError(`Invalid Gitea token. Please check your token and try again.
+
+Get a new token at: ${this.baseUrl}/user/settings/applications
+Required scopes: read:user, read:repository, read:issue`, !this.token);
+      }
+
+      if (errorStatus === 403) {
+        throw new InsufficientScopesError(`Your Gitea token cannot read this data. It needs the read:user, read:repository and read:issue scopes.
+
+Update it at: ${this.baseUrl}/user/settings/applications`, ['read:user', 'read:repository', 'read:issue']);
+      }
+
+      if (errorStatus === 429) {
+        const resetAt = rateLimitResetFrom(error instanceof GiteaHttpError ? error.headers : undefined);
+        throw new RateLimitedError(`Gitea API rate limit exceeded.${describeReset(resetAt)}`, resetAt);
+      }
+
+      throw new Error(`Failed to fetch data: ${errorMessage}`);
+    }
+  }
+
+  private async fetchRepositoryActivity(repository: GiteaRepository, range: DateRange): Promise<GiteaRepositoryActivity> {
+    const base = `/repos/${encodeURIComponent(repository.owner.login)}/${encodeURIComponent(repository.name)}`;
+    const { from, to } = rangeToDateTimes(range);
+    const isOurs = (login?: string) => login?.toLowerCase() === this.username.toLowerCase();
+
+    const [{ data: languages }, commits, pulls, issues] = await Promise.all([
+      this.request<{ [key: string]: number }>(`${base}/languages`),
+      // An empty repository answers 409 instead of an empty list
+      this.fetchAllPages<GiteaCommit>(`${base}/commits`, { since: from, until: to, stat: 'true' }).catch((error: unknown) => {
+        if (error instanceof GiteaHttpError && error.status === 409) return [];
+        throw error;
+      }),
+      // Newest first (Gitea's order for any sort it does not name), so paging stops at the period start
+      this.fetchAllPages<GiteaIssue>(`${base}/pulls`, { state: 'all', sort: 'newest' }, (pull) => pull.created_at.slice(0, 10) < range.from),
+      this.fetchAllPages<GiteaIssue>(`${base}/issues`, { state: 'all', type: 'issues', created_by: this.username }),
+    ]);
+
+    return {
+      repository,
+      languages,
+      commits: commits
+        .filter((commit) => isOurs(commit.author?.login) && isWithinRange(commit.commit.author.date, range))
+        .map((commit) => ({
+          sha: commit.sha,
+          name: commit.commit.author.name,
+          email: commit.commit.author.email,
+          date: commit.commit.author.date,
+          message: commit.commit.message,
+          additions: commit.stats?.additions || 0,
+          deletions: commit.stats?.deletions || 0,
+        })),
+      pullRequests: pulls.filter((pull) => isOurs(pull.user.login) && isWithinRange(pull.created_at, range)).length,
+      issues: issues.filter((issue) => isOurs(issue.user.login) && isWithinRange(issue.created_at, range)).length,
+    };
+  }
+
+  /**
+   * @param isPastEnd - For newest-first lists: an item older than anything wanted, so later pages are skipped
+   */
+  private async fetchAllPages<T>(path: string, params: { [key: string]: string } = {}, isPastEnd?: (item: T) => boolean): Promise<T[]> {
+    const items: T[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const { data } = await this.request<T[]>(path, { ...params, limit: String(PAGE_SIZE), page: String(page) });
+      items.push(...data);
+      if (data.length < PAGE_SIZE || (isPastEnd && data.some(isPastEnd))) return items;
+    }
+
+    // Full pages all the way to the ceiling: there is more, and it is left out
+    this.onProgress?.(`⚠ Stopped after ${MAX_PAGES} pages (${items.length} items) of ${path}; the rest is left out.`);
+    return items;
+  }
+
+  private async request<T>(path: string, params: { [key: string]: string } = {}): Promise<{ data: T; headers: Headers }> {
+    const url = new URL(`${this.baseUrl}/api/v1${path}`);
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+
+    const response = await this.fetch(url, {
+      headers: {
+        'User-Agent': 'gh-wrapped-cli',
+        Accept: 'application/json',
+        ...(this.token ? { Authorization: `token ${this.token}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new GiteaHttpError(response.status, `Gitea API ${response.status} for ${path}`, response.headers);
+    }
+
+    return { data: (await response.json()) as T, headers: response.headers };
+  }
+}
@@ -1,5 +1,11 @@
-import { graphql } from '@octokit/graphql';
-import type { GitHubUser, Repository, Commit, ContributionDay } from './types.js';
+import { graphql, GraphqlResponseError } from '@octokit/graphql';
+import type { GitHubUser, Repository, Commit, ContributionDay, DateRange, Period } from './types.js';
+import type { WrappedDataSource, CommitOptions } from './data-source.js';
+import { periodToRange, validateRange, rangeToDateTimes } from './utils/date-range.js';
+import type { DiskCache } from './utils/disk-cache.js';
+import { resolveGitHubHost, tokenSettingsUrl, newTokenUrl, type GitHubHost } from './utils/github-host.js';
+import { getRequestScheduler, GRAPHQL_RATE_LIMIT_FIELDS } from './utils/request-scheduler.js';
+import { NotFoundError, UnauthorizedError, NoDataError, OfflineCacheMissError, toGitHubError } from './errors.js';
 
 interface GraphQLResponse {
   viewer?: {
@@ -17,6 +23,7 @@ interface GraphQLResponse {
     repositories_data: RepositoriesData;
   };
   user?: {
+    id: string;
     login: string;
     name: string;
     avatarUrl: string;
@@ -55,31 +62,44 @@ interface ContributionsCollectionData {
       stargazerCount: number;
       forkCount: number;
       primaryLanguage: { name: string; color: string } | null;
+      languages: {
+        totalSize: number;
+        edges: Array<{ size: number; node: { name: string } }>;
+      } | null;
     };
-    contributions: {
-      totalCount: number;
-      nodes: Array<{
-        occurredAt: string;
-      }>;
-    };
+    contributions: CommitContributionsData;
+  }>;
+  pullRequestContributions: PullRequestContributionsData;
+}
+
+// One node per day with commits; `occurredAt` carries the day only
+interface CommitContributionsData {
+  totalCount: number;
+  pageInfo: PageInfo;
+  nodes: Array<{
+    occurredAt: string;
+    commitCount: number;
+  }>;
+}
+
+interface PullRequestContributionsData {
+  totalCount: number;
+  pageInfo: PageInfo;
+  nodes: Array<{
+    pullRequest: {
+      title: string;
+      createdAt: string;
+      additions: number;
+      deletions: number;
+      changedFiles: number;
+      repository: { name: string };
+    } | null;
   }>;
-  pullRequestContributions: {
-    totalCount: number;
-    nodes: Array<{
-      pullRequest: {
-        title: string;
-        createdAt: string;
-        additions: number;
-        deletions: number;
-        changedFiles: number;
-        repository: { name: string };
-      } | null;
-    }>;
-  };
 }
 
 interface RepositoriesData {
   totalCount: number;
+  pageInfo: PageInfo;
   nodes: Array<{
     name: string;
     stargazerCount: number;
@@ -92,157 +112,389 @@ interface RepositoriesData {
   }>;
 }
 
-export class GitHubGraphQLClient {
-  private graphqlWithAuth: typeof graphql;
-  private username: string;
-  private statsCache: Map<number, GraphQLResponse> = new Map();
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
 
-  constructor(username: string, token?: string) {
-    this.username = username;
-    this.graphqlWithAuth = graphql.defaults({
-      headers: {
-        authorization: token ? `bearer ${token}` : undefined,
-      },
-    });
-  }
+interface CommitContributionsPage {
+  user: {
+    contributionsCollection: {
+      commitContributionsByRepository: Array<{
+        repository: { nameWithOwner: string };
+        contributions: {
+          pageInfo: PageInfo;
+          nodes: Array<{ occurredAt: string; commitCount: number }>;
+        };
+      }>;
+    };
+  };
+}
 
-  private async getCompleteStats(year: number = 2025): Promise<GraphQLResponse> {
-    // Return cached data if available
-    if (this.statsCache.has(year)) {
-      return this.statsCache.get(year)!;
-    }
+// Authored timestamps per repository (nameWithOwner) with readable default branch history
+type CommitTimes = { [nameWithOwner: string]: string[] };
+
+// Aliased `repository` fields of a commit history query, null for repositories the token cannot read
+interface CommitHistoryPage {
+  [alias: string]: {
+    defaultBranchRef: {
+      target: {
+        history?: {
+          pageInfo: PageInfo;
+          nodes: Array<{ authoredDate: string }>;
+        };
+      };
+    } | null;
+  } | null;
+}
 
-    const startDate = new Date(`${year}-01-01`);
-    const today = new Date();
-    const yearEnd = new Date(`${year}-12-31`);
-    const endDate = year === today.getFullYear() ? today : yearEnd;
+interface PullRequestContributionsPage {
+  user: {
+    contributionsCollection: {
+      pullRequestContributions: PullRequestContributionsData;
+    };
+  };
+}
 
-    // Check if year is in the future
-    if (startDate > today) {
-      throw new Error(`Year ${year} is in the future. Please use ${today.getFullYear()} or earlier.`);
+interface RepositoriesPage {
+  user: {
+    repositories: RepositoriesData;
+  };
+}
+
+// Page size for every paginated connection (GitHub's maximum)
+const PAGE_SIZE = 100;
+
+// Repositories commitContributionsByRepository returns at most; the list itself has no cursor
+const MAX_CONTRIBUTED_REPOSITORIES = 100;
+
+const PULL_REQUEST_CONTRIBUTION_FIELDS = `
+  totalCount
+  pageInfo {
+    hasNextPage
+    endCursor
+  }
+  nodes {
+    pullRequest {
+      title
+      createdAt
+      additions
+      deletions
+      changedFiles
+      repository {
+        name
+      }
     }
+  }
+`;
 
-    // Always use user(login:) query - token just provides higher rate limits
-    // and access to private contributions for the queried user
-    const query = `
-      query($username: String!, $from: DateTime!, $to: DateTime!) {
-        user(login: $username) {
-          login
-          name
-          avatarUrl
-          bio
-          company
-          location
-          createdAt
-          repositories(privacy: PUBLIC) {
-            totalCount
-          }
-          followers {
-            totalCount
-          }
-          following {
-            totalCount
-          }
+const REPOSITORY_FIELDS = `
+  totalCount
+  pageInfo {
+    hasNextPage
+    endCursor
+  }
+  nodes {
+    name
+    stargazerCount
+    forkCount
+    description
+    url
+    createdAt
+    updatedAt
+    primaryLanguage {
+      name
+      color
+    }
+  }
+`;
+
+// Always use user(login:) query - token just provides higher rate limits
+// and access to private contributions for the queried user
+const COMPLETE_STATS_QUERY = `
+  query($username: String!, $from: DateTime!, $to: DateTime!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    user(login: $username) {
+      id
+      login
+      name
+      avatarUrl
+      bio
+      company
+      location
+      createdAt
+      repositories(privacy: PUBLIC) {
+        totalCount
+      }
+      followers {
+        totalCount
+      }
+      following {
+        totalCount
+      }
 
-          # ContributionsCollection - requires authentication
-          contributionsCollection(from: $from, to: $to) {
-            totalCommitContributions
-            totalIssueContributions
-            totalPullRequestContributions
-            totalPullRequestReviewContributions
-
-            contributionCalendar {
-              totalContributions
-              weeks {
-                contributionDays {
-                  contributionCount
-                  date
-                  weekday
-                  color
-                }
-              }
+      # ContributionsCollection - requires authentication
+      contributionsCollection(from: $from, to: $to) {
+        totalCommitContributions
+        totalIssueContributions
+        totalPullRequestContributions
+        totalPullRequestReviewContributions
+
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              contributionCount
+              date
+              weekday
+              color
             }
+          }
+        }
 
-            commitContributionsByRepository(maxRepositories: 100) {
-              repository {
-                name
-                nameWithOwner
-                stargazerCount
-                forkCount
-                primaryLanguage {
+        # 100 is the API maximum and this list is not paginated; the
+        # contributions inside each repository are
+        commitContributionsByRepository(maxRepositories: ${MAX_CONTRIBUTED_REPOSITORIES}) {
+          repository {
+            name
+            nameWithOwner
+            stargazerCount
+            forkCount
+            primaryLanguage {
+              name
+              color
+            }
+            languages(first: 10, orderBy: {field: SIZE, direction: DESC}) {
+              totalSize
+              edges {
+                size
+                node {
                   name
-                  color
-                }
-              }
-              contributions(first: 100) {
-                totalCount
-                nodes {
-                  occurredAt
                 }
               }
             }
-
-            pullRequestContributions(first: 100) {
-              totalCount
-              nodes {
-                pullRequest {
-                  title
-                  createdAt
-                  additions
-                  deletions
-                  changedFiles
-                  repository {
-                    name
-                  }
-                }
-              }
+          }
+          contributions(first: ${PAGE_SIZE}) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              occurredAt
+              commitCount
             }
           }
+        }
 
-          repositories_data: repositories(first: 10, orderBy: {field: STARGAZERS, direction: DESC}, privacy: PUBLIC) {
-            totalCount
+        pullRequestContributions(first: ${PAGE_SIZE}) {
+          ${PULL_REQUEST_CONTRIBUTION_FIELDS}
+        }
+      }
+
+      repositories_data: repositories(first: ${PAGE_SIZE}, orderBy: {field: STARGAZERS, direction: DESC}, privacy: PUBLIC) {
+        ${REPOSITORY_FIELDS}
+      }
+    }
+  }
+`;
+
+const COMMIT_CONTRIBUTIONS_PAGE_QUERY = `
+  query($username: String!, $from: DateTime!, $to: DateTime!, $after: String!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        commitContributionsByRepository(maxRepositories: ${MAX_CONTRIBUTED_REPOSITORIES}) {
+          repository {
+            nameWithOwner
+          }
+          contributions(first: ${PAGE_SIZE}, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
             nodes {
-              name
-              stargazerCount
-              forkCount
-              description
-              url
-              createdAt
-              updatedAt
-              primaryLanguage {
-                name
-                color
+              occurredAt
+              commitCount
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Repositories per commit history request
+const HISTORY_BATCH_SIZE = 20;
+
+/**
+ * The user's commits on the default branch of several repositories, each at its own cursor.
+ * Contribution nodes only carry the day, so this is where commit times come from.
+ */
+function commitHistoryQuery(targets: Array<{ nameWithOwner: string; cursor: string | null }>): string {
+  const repositories = targets.map(({ nameWithOwner, cursor }, index) => {
+    const [owner, name] = nameWithOwner.split('/');
+    const after = cursor ? `, after: ${JSON.stringify(cursor)}` : '';
+
+    return `
+    r${index}: repository(owner: ${JSON.stringify(owner)}, name: ${JSON.stringify(name)}) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(first: ${PAGE_SIZE}, author: {id: $authorId}, since: $since, until: $until${after}) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                authoredDate
               }
             }
           }
         }
       }
-    `;
+    }`;
+  });
+
+  return `
+  query($authorId: ID!, $since: GitTimestamp!, $until: GitTimestamp!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    ${repositories.join('')}
+  }
+`;
+}
+
+const PULL_REQUEST_CONTRIBUTIONS_PAGE_QUERY = `
+  query($username: String!, $from: DateTime!, $to: DateTime!, $after: String!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        pullRequestContributions(first: ${PAGE_SIZE}, after: $after) {
+          ${PULL_REQUEST_CONTRIBUTION_FIELDS}
+        }
+      }
+    }
+  }
+`;
+
+const REPOSITORIES_PAGE_QUERY = `
+  query($username: String!, $after: String!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    user(login: $username) {
+      repositories(first: ${PAGE_SIZE}, after: $after, orderBy: {field: STARGAZERS, direction: DESC}, privacy: PUBLIC) {
+        ${REPOSITORY_FIELDS}
+      }
+    }
+  }
+`;
+
+export interface GitHubClientOptions {
+  host?: GitHubHost; // github.com unless a GitHub Enterprise Server is given
+  cache?: DiskCache; // Persist responses across runs
+  onProgress?: (message: string) => void; // Reports extra pages being fetched
+}
+
+export class GitHubGraphQLClient implements WrappedDataSource {
+  readonly id = 'github-graphql';
+  readonly displayName = 'GitHub';
+  readonly languageWeighting = 'repo-bytes';
+  private graphqlWithAuth: typeof graphql;
+  private username: string;
+  private host: GitHubHost;
+  private token?: string;
+  private hasToken: boolean;
+  private statsCache: Map<string, Promise<GraphQLResponse>> = new Map();
+  private commitTimesCache: Map<string, Promise<CommitTimes>> = new Map();
+  private diskCache?: DiskCache;
+  private onProgress?: (message: string) => void;
+
+  constructor(username: string, token?: string, options: GitHubClientOptions = {}) {
+    this.username = username;
+    this.host = options.host || resolveGitHubHost();
+    this.token = token;
+    this.hasToken = Boolean(token);
+    this.diskCache = options.cache;
+    this.onProgress = options.onProgress;
+    this.graphqlWithAuth = graphql.defaults({
+      baseUrl: this.host.apiUrl,
+      headers: {
+        authorization: token ? `bearer ${token}` : undefined,
+      },
+      request: {
+        fetch: getRequestScheduler().createFetch(options.onProgress),
+      },
+    });
+  }
+
+  private async getCompleteStats(period: Period = new Date().getFullYear()): Promise<GraphQLResponse> {
+    const range = periodToRange(period);
+    const cacheKey = `${range.from}..${range.to}`;
 
+    // Return cached (or in-flight) data if available, so concurrent getters share one request
+    const cached = this.statsCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Reject future, reversed or longer-than-a-year windows before hitting the API
+    validateRange(range);
+
+    const request = this.loadCompleteStats(range);
+    this.statsCache.set(cacheKey, request);
+
+    // Clear cache on error so the next call retries
+    request.catch(() => this.statsCache.delete(cacheKey));
+
+    return request;
+  }
+
+  /**
+   * Serve the response from the disk cache when possible, otherwise fetch and store it
+   */
+  private async loadCompleteStats(range: DateRange): Promise<GraphQLResponse> {
+    if (!this.diskCache) {
+      return this.fetchCompleteStats(range);
+    }
+
+    const key = this.diskCache.key(this.host.hostname, this.username, `${range.from}..${range.to}`, COMPLETE_STATS_QUERY, this.token);
+    const cached = await this.diskCache.read<GraphQLResponse>(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.diskCache.mode === 'offline') {
+      throw new OfflineCacheMissError(this.username, range.label);
+    }
+
+    const response = await this.fetchCompleteStats(range);
+    await this.diskCache.write(key, response);
+    return response;
+  }
+
+  private async fetchCompleteStats(range: DateRange): Promise<GraphQLResponse> {
     try {
       const variables = {
         username: this.username,
-        from: startDate.toISOString(),
-        to: endDate.toISOString()
+        ...rangeToDateTimes(range)
       };
 
-      const result = await this.graphqlWithAuth<GraphQLResponse>(query, variables);
+      const result = await this.graphqlWithAuth<GraphQLResponse>(COMPLETE_STATS_QUERY, variables);
 
       // Get user data from the user query
       const userData = result.user;
 
       // Validate response structure
       if (!userData) {
-        throw new Error(`Failed to fetch user data. Please check the username or token.`);
+        throw new NotFoundError(`GitHub user "${this.username}" not found on ${this.host.hostname}. Please check the username and try again.`);
       }
 
       if (!userData.contributionsCollection) {
-        throw new Error(`⚠️  AUTHENTICATION REQUIRED
+        throw new UnauthorizedError(`⚠️  AUTHENTICATION REQUIRED
 
 GitHub's API requires authentication to access contribution data.
 
 What you need:
-1. Create a Personal Access Token at: https://github.com/settings/tokens
+1. Create a Personal Access Token at: ${tokenSettingsUrl(this.host)}
 2. Minimum scope: read:user (for contribution data)
 3. Run this app again and provide the token when prompted
 
@@ -250,54 +502,204 @@ Why this is needed:
 - Without a token: Only public repository data is visible
 - With a token: Full contribution calendar and statistics
 
-Get your token now: https://github.com/settings/tokens/new?description=GitHub%20Wrapped&scopes=read:user`);
+Get your token now: ${newTokenUrl(this.host)}`, true);
       }
 
+      // Follow every cursor so heavy contributors are not truncated at the first page
+      await this.fetchRemainingPages(userData, range);
+
       // Normalize the response
-      const normalizedResult: GraphQLResponse = { user: userData as any };
+      return { user: userData };
+    } catch (error: unknown) {
+      throw this.toError(error);
+    }
+  }
 
-      // Cache the result
-      this.statsCache.set(year, normalizedResult);
+  private toError(error: unknown): Error {
+    return toGitHubError(error, {
+      host: this.host,
+      hasToken: this.hasToken,
+      notFound: `GitHub user "${this.username}" not found on ${this.host.hostname}. Please check the username and try again.`,
+      requiredScopes: 'read:user',
+    });
+  }
 
-      return normalizedResult;
-    } catch (error: unknown) {
-      // Clear cache on error
-      this.statsCache.delete(year);
+  private async fetchRemainingPages(userData: NonNullable<GraphQLResponse['user']>, range: DateRange): Promise<void> {
+    const dateTimes = rangeToDateTimes(range);
+    const collection = userData.contributionsCollection;
 
-      // Type-safe error handling
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const errorStatus = (error as any)?.status; // GraphQL errors may have status
+    const byRepository = collection.commitContributionsByRepository || [];
+    if (byRepository.length >= MAX_CONTRIBUTED_REPOSITORIES) {
+      const covered = byRepository.reduce((sum, repoContrib) => sum + repoContrib.contributions.totalCount, 0);
+      this.onProgress?.(`⚠ GitHub lists only ${MAX_CONTRIBUTED_REPOSITORIES} of the repositories you committed to in ${range.label} (${covered} of ${collection.totalCommitContributions} commits); top repositories, languages and peak hour leave the rest out.`);
+    }
 
-      // Handle specific errors
-      if (errorMessage.includes('AUTHENTICATION REQUIRED')) {
-        throw error instanceof Error ? error : new Error(errorMessage);
+    // Commit contributions: the `after` argument applies to every repository in the list and cannot
+    // be set per repository, so each request pages only the repositories whose own cursor it carries
+    const pending = new Map<string, { cursor: string; contributions: CommitContributionsData }>();
+    for (const repoContrib of byRepository) {
+      const { pageInfo } = repoContrib.contributions;
+      if (pageInfo?.hasNextPage && pageInfo.endCursor) {
+        pending.set(repoContrib.repository.nameWithOwner, { cursor: pageInfo.endCursor, contributions: repoContrib.contributions });
       }
+    }
 
-      if (errorMessage.includes('NOT_FOUND') || errorMessage.includes('Could not resolve to a User')) {
-        throw new Error(`GitHub user "${this.username}" not found. Please check the username and try again.`);
-      }
+    let commitRequest = 0;
+    while (pending.size > 0) {
+      const cursor = pending.values().next().value!.cursor;
+      const batch = [...pending].filter(([, target]) => target.cursor === cursor);
+      commitRequest++;
+      this.onProgress?.(`Fetching more commit history (request ${commitRequest}, ${pending.size} ${pending.size === 1 ? 'repository' : 'repositories'} left)...`);
 
-      if (errorStatus === 401 || errorMessage.includes('Bad credentials')) {
-        throw new Error(`Invalid GitHub token. Please check your token and try again.
+      const page = await this.graphqlWithAuth<CommitContributionsPage>(COMMIT_CONTRIBUTIONS_PAGE_QUERY, {
+        username: this.username,
+        ...dateTimes,
+        after: cursor,
+      });
+      const returned = new Map(page.user.contributionsCollection.commitContributionsByRepository
+        .map((repoContrib) => [repoContrib.repository.nameWithOwner, repoContrib.contributions]));
+
+      for (const [name, target] of batch) {
+        const next = returned.get(name);
+        const { pageInfo } = next || {};
+
+        if (next) {
+          target.contributions.nodes.push(...next.nodes);
+        }
+        if (next && pageInfo?.hasNextPage && pageInfo.endCursor && pageInfo.endCursor !== cursor) {
+          target.cursor = pageInfo.endCursor;
+          continue;
+        }
 
-Get a new token at: https://github.com/settings/tokens
-Required scope: read:user`);
+        pending.delete(name);
+        if (!next || pageInfo?.hasNextPage) {
+          // Keep what was fetched, but do not pass a truncated history off as complete
+          this.onProgress?.(`⚠ Could not page past ${target.contributions.nodes.length} of ${target.contributions.totalCount} contribution days in ${name}; its commit history is incomplete.`);
+        }
       }
+    }
 
-      if (errorStatus === 403 || errorMessage.includes('rate limit')) {
-        throw new Error('GitHub API rate limit exceeded. Please use a GitHub token for higher limits.');
-      }
+    // Pull request contributions
+    const prs = collection.pullRequestContributions;
+    while (prs?.pageInfo?.hasNextPage && prs.pageInfo.endCursor) {
+      this.onProgress?.(`Fetching pull requests (${prs.nodes.length} of ${prs.totalCount})...`);
+
+      const page = await this.graphqlWithAuth<PullRequestContributionsPage>(PULL_REQUEST_CONTRIBUTIONS_PAGE_QUERY, {
+        username: this.username,
+        ...dateTimes,
+        after: prs.pageInfo.endCursor,
+      });
+
+      const next = page.user.contributionsCollection.pullRequestContributions;
+      prs.nodes.push(...next.nodes);
+      prs.pageInfo = next.pageInfo;
+    }
+
+    // Repositories
+    const repos = userData.repositories_data;
+    while (repos?.pageInfo?.hasNextPage && repos.pageInfo.endCursor) {
+      this.onProgress?.(`Fetching repositories (${repos.nodes.length} of ${repos.totalCount})...`);
+
+      const page = await this.graphqlWithAuth<RepositoriesPage>(REPOSITORIES_PAGE_QUERY, {
+        username: this.username,
+        after: repos.pageInfo.endCursor,
+      });
+
+      repos.nodes.push(...page.user.repositories.nodes);
+      repos.pageInfo = page.user.repositories.pageInfo;
+    }
+  }
+
+  /**
+   * Commit times cost a history crawl per repository, so they are only fetched (and cached) when asked for
+   */
+  private async getCommitTimes(period: Period): Promise<CommitTimes> {
+    const range = periodToRange(period);
+    const cacheKey = `${range.from}..${range.to}`;
+
+    const cached = this.commitTimesCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const request = this.loadCommitTimes(range);
+    this.commitTimesCache.set(cacheKey, request);
+    request.catch(() => this.commitTimesCache.delete(cacheKey));
+
+    return request;
+  }
 
-      throw new Error(`Failed to fetch data: ${errorMessage}`);
+  private async loadCommitTimes(range: DateRange): Promise<CommitTimes> {
+    const userData = this.getUserData(await this.getCompleteStats(range));
+    if (!this.diskCache) {
+      return this.fetchCommitTimes(userData, range);
     }
+
+    const key = this.diskCache.key(this.host.hostname, this.username, `${range.from}..${range.to}`, commitHistoryQuery([]), this.token);
+    const cached = await this.diskCache.read<CommitTimes>(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.diskCache.mode === 'offline') {
+      throw new OfflineCacheMissError(`the commit times of ${this.username}`, range.label);
+    }
+
+    const commitTimes = await this.fetchCommitTimes(userData, range);
+    await this.diskCache.write(key, commitTimes);
+    return commitTimes;
+  }
+
+  /**
+   * Authored timestamps for every repository with commit contributions. Repositories whose history
+   * is unreadable or empty (commits only on other branches) are left out and keep just their contribution days.
+   */
+  private async fetchCommitTimes(userData: NonNullable<GraphQLResponse['user']>, range: DateRange): Promise<CommitTimes> {
+    const { from, to } = rangeToDateTimes(range);
+    const commitTimes: CommitTimes = {};
+    const pending = (userData.contributionsCollection.commitContributionsByRepository || [])
+      .map((repoContrib) => ({ nameWithOwner: repoContrib.repository.nameWithOwner, cursor: null as string | null, times: [] as string[] }));
+
+    let request = 0;
+    while (pending.length > 0) {
+      const batch = pending.slice(0, HISTORY_BATCH_SIZE);
+      request++;
+      this.onProgress?.(`Fetching commit times (request ${request}, ${pending.length} ${pending.length === 1 ? 'repository' : 'repositories'} left)...`);
+
+      const query = commitHistoryQuery(batch.map(({ nameWithOwner, cursor }) => ({ nameWithOwner, cursor })));
+      const page = await this.graphqlWithAuth<CommitHistoryPage>(query, { authorId: userData.id, since: from, until: to })
+        .catch((error: unknown) => {
+          // Repositories the token cannot read come back as null next to an error; keep the rest
+          if (error instanceof GraphqlResponseError && error.data) return error.data as CommitHistoryPage;
+          throw this.toError(error);
+        });
+
+      for (const [index, target] of batch.entries()) {
+        const history = page[`r${index}`]?.defaultBranchRef?.target.history;
+        target.times.push(...(history?.nodes || []).map((node) => node.authoredDate));
+
+        const { hasNextPage, endCursor } = history?.pageInfo || {};
+        if (hasNextPage && endCursor && endCursor !== target.cursor) {
+          target.cursor = endCursor;
+          continue;
+        }
+
+        pending.splice(pending.indexOf(target), 1);
+        // History filters by commit date and keeps each author's offset; the period is by authored instant
+        const times = target.times.filter((time) => Date.parse(time) >= Date.parse(from) && Date.parse(time) <= Date.parse(to));
+        if (times.length > 0) commitTimes[target.nameWithOwner] = times;
+      }
+    }
+
+    return commitTimes;
   }
 
   private getUserData(response: GraphQLResponse) {
     return response.user!;
   }
 
-  async getUser(): Promise<GitHubUser> {
-    const data = await this.getCompleteStats();
+  async getUser(period: Period = new Date().getFullYear()): Promise<GitHubUser> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
 
     return {
@@ -314,8 +716,8 @@ Required scope: read:user`);
     } as GitHubUser;
   }
 
-  async getRepositories(): Promise<Repository[]> {
-    const data = await this.getCompleteStats();
+  async getRepositories(period: Period = new Date().getFullYear()): Promise<Repository[]> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
 
     return user.repositories_data.nodes.map((repo) => ({
@@ -332,74 +734,101 @@ Required scope: read:user`);
     })) as Repository[];
   }
 
-  async getCommitsForYear(year: number = 2025): Promise<Commit[]> {
-    const data = await this.getCompleteStats(year);
+  async getCommitsForYear(period: Period = new Date().getFullYear(), options: CommitOptions = {}): Promise<Commit[]> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
+    const commitTimes = options.withCommitTimes ? await this.getCommitTimes(period) : {};
     const commits: Commit[] = [];
 
     const repoContribs = user.contributionsCollection.commitContributionsByRepository || [];
 
+    const toCommit = (date: string, repository: string, dateOnly?: boolean): Commit => ({
+      sha: '',
+      commit: {
+        author: {
+          date,
+          name: user.login,
+          email: '',
+        },
+        message: '',
+      },
+      repository,
+      ...(dateOnly ? { dateOnly } : {}),
+    });
+
     for (const repoContrib of repoContribs) {
       if (!repoContrib?.repository || !repoContrib?.contributions?.nodes) continue;
 
+      const times = commitTimes[repoContrib.repository.nameWithOwner];
+      if (times) {
+        commits.push(...times.map((time) => toCommit(time, repoContrib.repository.name)));
+        continue;
+      }
+
+      // No history to read: one commit per contribution, on its day but at no particular hour
       for (const contrib of repoContrib.contributions.nodes) {
         if (!contrib?.occurredAt) continue;
 
-        commits.push({
-          sha: '',
-          commit: {
-            author: {
-              date: contrib.occurredAt,
-              name: user.login,
-              email: '',
-            },
-            message: '',
-          },
-          repository: repoContrib.repository.name,
-        } as Commit);
+        for (let i = 0; i < (contrib.commitCount || 1); i++) {
+          commits.push(toCommit(contrib.occurredAt, repoContrib.repository.name, true));
+        }
       }
     }
 
     if (commits.length === 0) {
-      throw new Error(`No commits found for ${this.username} in ${year}. Try a different year or username.`);
+      throw new NoDataError(`No commits found for ${this.username} in ${periodToRange(period).label}. Try a different period or username.`);
     }
 
     return commits;
   }
 
-  async getPullRequests(year: number = 2025): Promise<number> {
-    const data = await this.getCompleteStats(year);
+  async getPullRequests(period: Period = new Date().getFullYear()): Promise<number> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
     return user.contributionsCollection?.totalPullRequestContributions || 0;
   }
 
-  async getIssues(year: number = 2025): Promise<number> {
-    const data = await this.getCompleteStats(year);
+  async getIssues(period: Period = new Date().getFullYear()): Promise<number> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
     return user.contributionsCollection?.totalIssueContributions || 0;
   }
 
-  async getLanguages(): Promise<{ [key: string]: number }> {
-    const data = await this.getCompleteStats();
+  /**
+   * Each repository's commits spread over its languages by byte share. Only the ten largest
+   * languages are fetched, so the long tail is left out rather than counted as the top one.
+   */
+  async getLanguages(period: Period = new Date().getFullYear()): Promise<{ [key: string]: number }> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
     const languageStats: { [key: string]: number } = {};
 
     const repoContribs = user.contributionsCollection.commitContributionsByRepository || [];
 
     for (const repoContrib of repoContribs) {
-      if (!repoContrib?.repository?.primaryLanguage) continue;
+      if (!repoContrib?.repository) continue;
 
-      const lang = repoContrib.repository.primaryLanguage.name;
       const count = repoContrib.contributions.totalCount;
+      const edges = repoContrib.repository.languages?.edges || [];
+      const totalSize = repoContrib.repository.languages?.totalSize || 0;
+
+      if (edges.length === 0 || totalSize === 0) {
+        // No linguist data (e.g. an empty default branch) - fall back to the primary language
+        const lang = repoContrib.repository.primaryLanguage?.name;
+        if (lang) languageStats[lang] = (languageStats[lang] || 0) + count;
+        continue;
+      }
 
-      languageStats[lang] = (languageStats[lang] || 0) + count;
+      for (const { size, node } of edges) {
+        languageStats[node.name] = (languageStats[node.name] || 0) + (count * size) / totalSize;
+      }
     }
 
     return languageStats;
   }
 
-  async getContributionCalendar(year: number = 2025): Promise<ContributionDay[]> {
-    const data = await this.getCompleteStats(year);
+  async getContributionCalendar(period: Period = new Date().getFullYear()): Promise<ContributionDay[]> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
     const calendar = user.contributionsCollection?.contributionCalendar;
 
@@ -425,8 +854,8 @@ Required scope: read:user`);
     return contributions;
   }
 
-  async getTotalLinesChanged(year: number = 2025): Promise<{ additions: number; deletions: number; total: number }> {
-    const data = await this.getCompleteStats(year);
+  async getTotalLinesChanged(period: Period = new Date().getFullYear()): Promise<{ additions: number; deletions: number; total: number }> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
     const prs = user.contributionsCollection.pullRequestContributions?.nodes || [];
 
@@ -447,14 +876,14 @@ Required scope: read:user`);
     };
   }
 
-  async getCodeReviewCount(year: number = 2025): Promise<number> {
-    const data = await this.getCompleteStats(year);
+  async getCodeReviewCount(period: Period = new Date().getFullYear()): Promise<number> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
     return user.contributionsCollection?.totalPullRequestReviewContributions || 0;
   }
 
-  async getTotalCommitCount(year: number = 2025): Promise<number> {
-    const data = await this.getCompleteStats(year);
+  async getTotalCommitCount(period: Period = new Date().getFullYear()): Promise<number> {
+    const data = await this.getCompleteStats(period);
     const user = this.getUserData(data);
     return user.contributionsCollection?.totalCommitContributions || 0;
   }
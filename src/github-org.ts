@@ -0,0 +1,420 @@
+import { graphql } from '@octokit/graphql';
+import type { GitHubOrg, OrgActivity, OrgRepositoryActivity, OrgContributor, Repository, DateRange, Period } from './types.js';
+import type { GitHubClientOptions } from './github-graphql.js';
+import { periodToRange, validateRange, rangeToDateTimes } from './utils/date-range.js';
+import { resolveGitHubHost, type GitHubHost } from './utils/github-host.js';
+import type { DiskCache } from './utils/disk-cache.js';
+import { getRequestScheduler, GRAPHQL_RATE_LIMIT_FIELDS } from './utils/request-scheduler.js';
+import { NotFoundError, OfflineCacheMissError, toGitHubError } from './errors.js';
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface CommitHistory {
+  totalCount: number;
+  pageInfo: PageInfo;
+  nodes: Array<{
+    author: {
+      name: string | null;
+      user: { login: string; avatarUrl: string } | null;
+    } | null;
+  }>;
+}
+
+interface OrgRepositoryNode {
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string | null;
+  stargazerCount: number;
+  forkCount: number;
+  diskUsage: number | null;
+  primaryLanguage: { name: string } | null;
+  languages: {
+    edges: Array<{ size: number; node: { name: string } }>;
+  } | null;
+  defaultBranchRef: {
+    target: { history?: CommitHistory } | null;
+  } | null;
+}
+
+interface OrgRepositoriesPage {
+  organization: {
+    login: string;
+    name: string | null;
+    avatarUrl: string;
+    description: string | null;
+    createdAt: string;
+    repositories: {
+      totalCount: number;
+      pageInfo: PageInfo;
+      nodes: OrgRepositoryNode[];
+    };
+  } | null;
+}
+
+interface CommitHistoryPage {
+  repository: {
+    defaultBranchRef: {
+      target: { history?: CommitHistory } | null;
+    } | null;
+  } | null;
+}
+
+interface TeamMembersPage {
+  organization: {
+    team: {
+      members: {
+        pageInfo: PageInfo;
+        nodes: Array<{ login: string }>;
+      };
+    } | null;
+  } | null;
+}
+
+interface SearchCounts {
+  prs: { issueCount: number };
+  issues: { issueCount: number };
+}
+
+// Repositories per page; each brings its first 100 commits along, well below the node limit
+const REPOSITORY_PAGE_SIZE = 50;
+
+const HISTORY_FIELDS = `
+  totalCount
+  pageInfo {
+    hasNextPage
+    endCursor
+  }
+  nodes {
+    author {
+      name
+      user {
+        login
+        avatarUrl
+      }
+    }
+  }
+`;
+
+const ORG_REPOSITORIES_QUERY = `
+  query($org: String!, $after: String, $since: GitTimestamp!, $until: GitTimestamp!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    organization(login: $org) {
+      login
+      name
+      avatarUrl
+      description
+      createdAt
+      repositories(first: ${REPOSITORY_PAGE_SIZE}, after: $after, orderBy: {field: PUSHED_AT, direction: DESC}) {
+        totalCount
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          name
+          description
+          createdAt
+          updatedAt
+          pushedAt
+          stargazerCount
+          forkCount
+          diskUsage
+          primaryLanguage {
+            name
+          }
+          languages(first: 10, orderBy: {field: SIZE, direction: DESC}) {
+            edges {
+              size
+              node {
+                name
+              }
+            }
+          }
+          defaultBranchRef {
+            target {
+              ... on Commit {
+                history(since: $since, until: $until, first: 100) {
+                  ${HISTORY_FIELDS}
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const COMMIT_HISTORY_PAGE_QUERY = `
+  query($owner: String!, $name: String!, $since: GitTimestamp!, $until: GitTimestamp!, $after: String!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    repository(owner: $owner, name: $name) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(since: $since, until: $until, first: 100, after: $after) {
+              ${HISTORY_FIELDS}
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const SEARCH_COUNTS_QUERY = `
+  query($prs: String!, $issues: String!) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    prs: search(query: $prs, type: ISSUE) {
+      issueCount
+    }
+    issues: search(query: $issues, type: ISSUE) {
+      issueCount
+    }
+  }
+`;
+
+const TEAM_MEMBERS_QUERY = `
+  query($org: String!, $slug: String!, $after: String) {
+    ${GRAPHQL_RATE_LIMIT_FIELDS}
+    organization(login: $org) {
+      team(slug: $slug) {
+        members(first: 100, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            login
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Fetches a year (or custom range) of activity across an organization's repositories.
+ * Commits are counted on each repository's default branch; PRs and issues come from search.
+ */
+export class GitHubOrgClient {
+  private graphqlWithAuth: typeof graphql;
+  private org: string;
+  private host: GitHubHost;
+  private token?: string;
+  private hasToken: boolean;
+  private diskCache?: DiskCache;
+  private onProgress?: (message: string) => void;
+
+  constructor(org: string, token?: string, options: GitHubClientOptions = {}) {
+    this.org = org;
+    this.host = options.host || resolveGitHubHost();
+    this.token = token;
+    this.hasToken = Boolean(token);
+    this.diskCache = options.cache;
+    this.onProgress = options.onProgress;
+    this.graphqlWithAuth = graphql.defaults({
+      baseUrl: this.host.apiUrl,
+      headers: {
+        authorization: token ? `bearer ${token}` : undefined,
+      },
+      request: {
+        fetch: getRequestScheduler().createFetch(options.onProgress),
+      },
+    });
+  }
+
+  async getActivity(period: Period = new Date().getFullYear()): Promise<OrgActivity> {
+    const range = periodToRange(period);
+
+    // Reject future, reversed or longer-than-a-year windows before hitting the API
+    validateRange(range);
+
+    if (!this.diskCache) {
+      return this.fetchActivity(range);
+    }
+
+    const key = this.diskCache.key(this.host.hostname, `org-${this.org}`, `${range.from}..${range.to}`, ORG_REPOSITORIES_QUERY, this.token);
+    const cached = await this.diskCache.read<OrgActivity>(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.diskCache.mode === 'offline') {
+      throw new OfflineCacheMissError(`the ${this.org} organization`, range.label);
+    }
+
+    const activity = await this.fetchActivity(range);
+    await this.diskCache.write(key, activity);
+    return activity;
+  }
+
+  /**
+   * Logins of every member of one of the organization's teams (needs the read:org scope)
+   */
+  async getTeamMembers(slug: string): Promise<string[]> {
+    const logins: string[] = [];
+    let after: string | null = null;
+
+    try {
+      do {
+        const page: TeamMembersPage = await this.graphqlWithAuth<TeamMembersPage>(TEAM_MEMBERS_QUERY, {
+          org: this.org,
+          slug,
+          after,
+        });
+
+        const members = page.organization?.team?.members;
+        if (!members) {
+          throw new NotFoundError(`Team "${this.org}/${slug}" not found on ${this.host.hostname}. Check the name, and that your token has the read:org scope.`);
+        }
+
+        logins.push(...members.nodes.map((member) => member.login));
+        after = members.pageInfo.hasNextPage ? members.pageInfo.endCursor : null;
+      } while (after);
+    } catch (error: unknown) {
+      throw toGitHubError(error, {
+        host: this.host,
+        hasToken: this.hasToken,
+        notFound: `GitHub organization "${this.org}" not found on ${this.host.hostname}. Please check the name and try again.`,
+        requiredScopes: 'read:org',
+      });
+    }
+
+    return logins;
+  }
+
+  private async fetchActivity(range: DateRange): Promise<OrgActivity> {
+    try {
+      const { from, to } = rangeToDateTimes(range);
+      const repositories: OrgRepositoryActivity[] = [];
+      let org: GitHubOrg | null = null;
+      let totalRepos = 0;
+      let after: string | null = null;
+
+      do {
+        this.onProgress?.(`Fetching ${this.org} repositories (${repositories.length}${totalRepos ? ` of ${totalRepos}` : ''})...`);
+
+        const page: OrgRepositoriesPage = await this.graphqlWithAuth<OrgRepositoriesPage>(ORG_REPOSITORIES_QUERY, {
+          org: this.org,
+          after,
+          since: from,
+          until: to,
+        });
+
+        if (!page.organization) {
+          throw new NotFoundError(`GitHub organization "${this.org}" not found on ${this.host.hostname}. Please check the name and try again.`);
+        }
+
+        const { repositories: connection, ...details } = page.organization;
+        totalRepos = connection.totalCount;
+        org = org || {
+          login: details.login,
+          name: details.name,
+          avatar_url: details.avatarUrl,
+          description: details.description,
+          public_repos: connection.totalCount,
+          created_at: details.createdAt,
+        };
+
+        let reachedOlderRepos = false;
+        for (const node of connection.nodes) {
+          // Ordered by last push, so everything from here on was untouched during the period
+          if (!node.pushedAt || node.pushedAt < from) {
+            reachedOlderRepos = true;
+            break;
+          }
+          repositories.push(await this.toRepositoryActivity(node, from, to));
+        }
+
+        after = !reachedOlderRepos && connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+      } while (after);
+
+      this.onProgress?.(`Counting ${this.org} pull requests and issues...`);
+      const dates = `${range.from}..${range.to}`;
+      const counts = await this.graphqlWithAuth<SearchCounts>(SEARCH_COUNTS_QUERY, {
+        prs: `org:${this.org} is:pr created:${dates}`,
+        issues: `org:${this.org} is:issue created:${dates}`,
+      });
+
+      return {
+        org: org!,
+        repositories,
+        totalRepos,
+        totalPRs: counts.prs.issueCount,
+        totalIssues: counts.issues.issueCount,
+      };
+    } catch (error: unknown) {
+      throw toGitHubError(error, {
+        host: this.host,
+        hasToken: this.hasToken,
+        notFound: `GitHub organization "${this.org}" not found on ${this.host.hostname}. Please check the name and try again.`,
+        requiredScopes: 'read:org, repo (for private repositories)',
+      });
+    }
+  }
+
+  /**
+   * Normalize a repository node, following the commit history cursor past the first page
+   */
+  private async toRepositoryActivity(node: OrgRepositoryNode, since: string, until: string): Promise<OrgRepositoryActivity> {
+    const authors: { [key: string]: OrgContributor } = {};
+    let history = node.defaultBranchRef?.target?.history;
+    let page = 1;
+
+    while (history) {
+      for (const commit of history.nodes) {
+        const user = commit.author?.user;
+        const name = commit.author?.name || 'Unknown';
+        const key = user?.login || name;
+
+        if (!authors[key]) {
+          authors[key] = { login: user?.login || null, name: user?.login || name, avatar_url: user?.avatarUrl, commits: 0 };
+        }
+        authors[key].commits++;
+      }
+
+      if (!history.pageInfo.hasNextPage || !history.pageInfo.endCursor) break;
+
+      page++;
+      this.onProgress?.(`Fetching ${node.name} commits (page ${page} of ${Math.ceil(history.totalCount / 100)})...`);
+      const next: CommitHistoryPage = await this.graphqlWithAuth<CommitHistoryPage>(COMMIT_HISTORY_PAGE_QUERY, {
+        owner: this.org,
+        name: node.name,
+        since,
+        until,
+        after: history.pageInfo.endCursor,
+      });
+      history = next.repository?.defaultBranchRef?.target?.history;
+    }
+
+    const languages: { [key: string]: number } = {};
+    for (const edge of node.languages?.edges || []) {
+      languages[edge.node.name] = edge.size;
+    }
+
+    const repository: Repository = {
+      name: node.name,
+      full_name: `${this.org}/${node.name}`,
+      description: node.description,
+      stargazers_count: node.stargazerCount,
+      forks_count: node.forkCount,
+      language: node.primaryLanguage?.name || null,
+      created_at: node.createdAt,
+      updated_at: node.updatedAt,
+      size: node.diskUsage || 0,
+    };
+
+    return {
+      repository,
+      commits: node.defaultBranchRef?.target?.history?.totalCount || 0,
+      authors,
+      languages,
+    };
+  }
+}
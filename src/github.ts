@@ -1,207 +1,288 @@
 import { Octokit } from '@octokit/rest';
-import type { GitHubUser, Repository, Commit, ContributionDay } from './types.js';
+import type { GitHubUser, Repository, Commit, ContributionDay, DateRange, Period } from './types.js';
+import type { WrappedDataSource } from './data-source.js';
+import { periodToRange, validateRange, toIsoDate } from './utils/date-range.js';
+import { resolveGitHubHost, type GitHubHost } from './utils/github-host.js';
+import type { DiskCache } from './utils/disk-cache.js';
+import type { GitHubClientOptions } from './github-graphql.js';
+import { getRequestScheduler } from './utils/request-scheduler.js';
+import { NoDataError, NotFoundError, InsufficientScopesError, OfflineCacheMissError, toGitHubError } from './errors.js';
+
+// Commit search returns at most 1,000 results (10 pages of 100)
+const MAX_COMMIT_PAGES = 10;
+
+interface CommitSearch {
+  commits: Commit[];
+  totalCount: number;
+}
 
-export class GitHubClient {
+/**
+ * GitHub REST API client. Works without a token (public data only, 60 requests/hour),
+ * which makes it the fallback when the GraphQL API cannot be used.
+ * Every response goes through the disk cache, so --offline works here too.
+ */
+export class GitHubClient implements WrappedDataSource {
+  readonly id = 'github-rest';
+  readonly displayName = 'GitHub';
+  readonly languageWeighting = 'primary-language';
   private octokit: Octokit;
   private username: string;
-
-  constructor(username: string, token?: string) {
+  private host: GitHubHost;
+  private token?: string;
+  private hasToken: boolean;
+  private diskCache?: DiskCache;
+  private commitSearches: Map<string, Promise<CommitSearch>> = new Map();
+  private repositories?: Promise<Repository[]>;
+
+  constructor(username: string, token?: string, options: GitHubClientOptions = {}) {
     this.username = username;
+    this.host = options.host || resolveGitHubHost();
+    this.token = token;
+    this.hasToken = Boolean(token);
+    this.diskCache = options.cache;
     this.octokit = new Octokit({
       auth: token,
+      baseUrl: this.host.apiUrl,
       userAgent: 'gh-wrapped-cli',
+      request: {
+        fetch: getRequestScheduler().createFetch(options.onProgress),
+      },
     });
   }
 
-  async getUser(): Promise<GitHubUser> {
-    try {
-      const { data } = await this.octokit.users.getByUsername({
-        username: this.username,
-      });
-      return data as GitHubUser;
-    } catch (error: any) {
-      if (error.status === 404) {
-        throw new Error(`GitHub user "${this.username}" not found. Please check the username and try again.`);
-      }
-      if (error.status === 403) {
-        throw new Error('GitHub API rate limit exceeded. Please try again later or use a GitHub token.');
-      }
-      throw new Error(`Failed to fetch user: ${error.message}`);
-    }
-  }
-
-  async getRepositories(): Promise<Repository[]> {
-    try {
-      const repos: Repository[] = [];
-      let page = 1;
-      let hasMore = true;
-
-      while (hasMore && page <= 10) {
-        const { data } = await this.octokit.repos.listForUser({
+  async getUser(_period?: Period): Promise<GitHubUser> {
+    return this.withDiskCache('users/get', undefined, async () => {
+      try {
+        const { data } = await this.octokit.users.getByUsername({
           username: this.username,
-          per_page: 100,
-          page,
-          sort: 'updated',
         });
-
-        if (data.length === 0) {
-          hasMore = false;
-        } else {
-          repos.push(...(data as Repository[]));
-          page++;
-        }
-      }
-
-      if (repos.length === 0) {
-        throw new Error('No public repositories found for this user.');
+        return data as GitHubUser;
+      } catch (error: unknown) {
+        throw this.toError(error, 'Failed to fetch user');
       }
+    });
+  }
 
-      return repos;
-    } catch (error: any) {
-      if (error.message.includes('No public repositories')) {
-        throw error;
-      }
-      if (error.status === 403) {
-        throw new Error('GitHub API rate limit exceeded. Please try again later.');
-      }
-      throw new Error(`Failed to fetch repositories: ${error.message}`);
+  async getRepositories(_period?: Period): Promise<Repository[]> {
+    if (!this.repositories) {
+      this.repositories = this.withDiskCache('repos/list-for-user', undefined, () => this.fetchRepositories());
+      this.repositories.catch(() => {
+        this.repositories = undefined;
+      });
     }
+    return this.repositories;
   }
 
-  async getCommitsForYear(year: number = 2025): Promise<Commit[]> {
-    const repos = await this.getRepositories();
-    const commits: Commit[] = [];
+  async getCommitsForYear(period: Period = new Date().getFullYear()): Promise<Commit[]> {
+    const range = periodToRange(period);
+    const { commits } = await this.searchCommits(range);
 
-    const startDate = new Date(`${year}-01-01`);
-    const yearEnd = new Date(`${year}-12-31`);
-    const today = new Date();
-
-    // Check if year is in the future
-    if (startDate > today) {
-      throw new Error(`Year ${year} is in the future. Please use ${today.getFullYear()} or earlier.`);
+    if (commits.length === 0) {
+      throw new NoDataError(`No commits found for ${this.username} in ${range.label}. Try a different period or username.`);
     }
 
-    // If we're still in the target year, use today as end date, otherwise use year end
-    const endDate = year === today.getFullYear() ? today : yearEnd;
+    return commits;
+  }
 
-    // Get commits from up to 10 most recently updated repos
-    const recentRepos = repos.slice(0, 10);
+  async getPullRequests(period: Period = new Date().getFullYear()): Promise<number> {
+    return this.countIssues(`author:${this.username} type:pr`, periodToRange(period));
+  }
 
-    const commitPromises = recentRepos.map(repo =>
-      this.octokit.repos.listCommits({
-        owner: this.username,
-        repo: repo.name,
-        author: this.username,
-        since: startDate.toISOString(),
-        until: endDate.toISOString(),
-        per_page: 100,
-      }).then(({ data }) => data as Commit[])
-        .catch(() => [] as Commit[]) // Skip repos we can't access (private, deleted, etc.)
-    );
+  async getIssues(period: Period = new Date().getFullYear()): Promise<number> {
+    return this.countIssues(`author:${this.username} type:issue`, periodToRange(period));
+  }
 
-    const allCommits = await Promise.all(commitPromises);
-    commits.push(...allCommits.flat());
+  async getCodeReviewCount(period: Period = new Date().getFullYear()): Promise<number> {
+    return this.countIssues(`reviewed-by:${this.username} type:pr -author:${this.username}`, periodToRange(period));
+  }
 
-    if (commits.length === 0) {
-      throw new Error(`No commits found for ${this.username} in ${year}. Try a different year or username.`);
+  /**
+   * Commits per primary language of the repository they landed in, like the GraphQL client.
+   * Per-repository language breakdowns would cost one request each, too much without a token.
+   */
+  async getLanguages(period: Period = new Date().getFullYear()): Promise<{ [key: string]: number }> {
+    const [{ commits }, repos] = await Promise.all([
+      this.searchCommits(periodToRange(period)),
+      this.getRepositories(),
+    ]);
+    const repoLanguages = new Map(repos.map((repo) => [repo.name, repo.language]));
+    const languageStats: { [key: string]: number } = {};
+
+    for (const commit of commits) {
+      const language = commit.repository ? repoLanguages.get(commit.repository) : null;
+      if (!language) continue;
+      languageStats[language] = (languageStats[language] || 0) + 1;
     }
 
-    return commits;
+    return languageStats;
   }
 
-  async getPullRequests(year: number = 2025): Promise<number> {
-    const startDate = `${year}-01-01`;
-    const today = new Date();
-    const yearEnd = `${year}-12-31`;
+  // Built from commit search results - the contribution calendar is GraphQL-only
+  async getContributionCalendar(period: Period = new Date().getFullYear()): Promise<ContributionDay[]> {
+    const range = periodToRange(period);
+    const { commits } = await this.searchCommits(range);
+    const calendar: { [date: string]: number } = {};
 
-    // If we're still in the target year, use today's date, otherwise use year end
-    const endDate = year === today.getFullYear()
-      ? today.toISOString().split('T')[0]
-      : yearEnd;
+    for (const commit of commits) {
+      const date = commit.commit.author.date.split('T')[0];
+      calendar[date] = (calendar[date] || 0) + 1;
+    }
 
-    try {
-      const { data } = await this.octokit.search.issuesAndPullRequests({
-        q: `author:${this.username} type:pr created:${startDate}..${endDate}`,
-        per_page: 1,
+    const contributions: ContributionDay[] = [];
+    for (let d = new Date(`${range.from}T00:00:00Z`); toIsoDate(d) <= range.to; d.setUTCDate(d.getUTCDate() + 1)) {
+      const dateStr = toIsoDate(d);
+      contributions.push({
+        date: dateStr,
+        count: calendar[dateStr] || 0,
       });
-
-      return data.total_count;
-    } catch (error) {
-      return 0;
     }
+
+    return contributions;
   }
 
-  async getIssues(year: number = 2025): Promise<number> {
-    const startDate = `${year}-01-01`;
-    const today = new Date();
-    const yearEnd = `${year}-12-31`;
+  // Line counts would need one request per commit, so leave the estimate to the analyzer
+  async getTotalLinesChanged(_period?: Period): Promise<undefined> {
+    return undefined;
+  }
 
-    // If we're still in the target year, use today's date, otherwise use year end
-    const endDate = year === today.getFullYear()
-      ? today.toISOString().split('T')[0]
-      : yearEnd;
+  async getTotalCommitCount(period: Period = new Date().getFullYear()): Promise<number> {
+    const { totalCount } = await this.searchCommits(periodToRange(period));
+    return totalCount;
+  }
 
+  private async fetchRepositories(): Promise<Repository[]> {
     try {
-      const { data } = await this.octokit.search.issuesAndPullRequests({
-        q: `author:${this.username} type:issue created:${startDate}..${endDate}`,
-        per_page: 1,
-      });
+      const repos: Repository[] = [];
+      let page = 1;
+      let hasMore = true;
+
+      while (hasMore && page <= 10) {
+        const { data } = await this.octokit.repos.listForUser({
+          username: this.username,
+          per_page: 100,
+          page,
+          sort: 'updated',
+        });
 
-      return data.total_count;
-    } catch (error) {
-      return 0;
+        repos.push(...(data as Repository[]));
+        hasMore = data.length === 100;
+        page++;
+      }
+
+      return repos;
+    } catch (error: unknown) {
+      throw this.toError(error, 'Failed to fetch repositories');
     }
   }
 
-  async getLanguages(): Promise<{ [key: string]: number }> {
-    const repos = await this.getRepositories();
-    const languageStats: { [key: string]: number } = {};
+  /**
+   * The user's authored commits in a range, shared by the commit, calendar and language getters
+   */
+  private searchCommits(range: DateRange): Promise<CommitSearch> {
+    const cacheKey = `${range.from}..${range.to}`;
+    const cached = this.commitSearches.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const search = this.withDiskCache('search/commits', range, () => this.fetchCommitSearch(range));
+    this.commitSearches.set(cacheKey, search);
+    search.catch(() => this.commitSearches.delete(cacheKey));
+    return search;
+  }
+
+  private async fetchCommitSearch(range: DateRange): Promise<CommitSearch> {
+    // Reject future, reversed or longer-than-a-year windows before hitting the API
+    validateRange(range);
+
+    try {
+      const commits: Commit[] = [];
+      let totalCount = 0;
 
-    const languagePromises = repos.map(repo =>
-      this.octokit.repos.listLanguages({
-        owner: this.username,
-        repo: repo.name,
-      }).then(({ data }) => data)
-        .catch(() => ({})) // Skip repos with errors
-    );
+      for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+        const { data } = await this.octokit.search.commits({
+          q: `author:${this.username} author-date:${range.from}..${range.to}`,
+          sort: 'author-date',
+          per_page: 100,
+          page,
+        });
 
-    const allLanguages = await Promise.all(languagePromises);
+        totalCount = data.total_count;
+        for (const item of data.items) {
+          commits.push({
+            sha: item.sha,
+            commit: {
+              author: {
+                name: item.commit.author?.name || this.username,
+                email: item.commit.author?.email || '',
+                date: item.commit.author?.date || '',
+              },
+              message: item.commit.message,
+            },
+            repository: item.repository.name,
+          });
+        }
 
-    allLanguages.forEach(data => {
-      for (const [language, bytes] of Object.entries(data)) {
-        languageStats[language] = (languageStats[language] || 0) + (bytes as number);
+        if (data.items.length < 100) break;
       }
-    });
 
-    return languageStats;
+      return { commits, totalCount };
+    } catch (error: unknown) {
+      throw this.toError(error, 'Failed to search commits');
+    }
   }
 
-  // Simulated contribution calendar (GitHub API requires auth for this)
-  async getContributionCalendar(year: number = 2025): Promise<ContributionDay[]> {
-    const commits = await this.getCommitsForYear(year);
-    const calendar: { [date: string]: number } = {};
+  private async countIssues(query: string, range: DateRange): Promise<number> {
+    try {
+      return await this.withDiskCache(`search/issues ${query}`, range, async () => {
+        const { data } = await this.octokit.search.issuesAndPullRequests({
+          q: `${query} created:${range.from}..${range.to}`,
+          per_page: 1,
+        });
 
-    for (const commit of commits) {
-      const date = commit.commit.author.date.split('T')[0];
-      calendar[date] = (calendar[date] || 0) + 1;
+        return data.total_count;
+      });
+    } catch (error: unknown) {
+      // Search can be off limits for a user or token; a missing count is not worth failing the wrap over
+      const mapped = this.toError(error, 'Failed to count issues');
+      if (mapped instanceof NotFoundError || mapped instanceof InsufficientScopesError) return 0;
+      throw mapped;
     }
+  }
 
-    const contributions: ContributionDay[] = [];
-    const startDate = new Date(`${year}-01-01`);
-    const yearEnd = new Date(`${year}-12-31`);
-    const today = new Date();
+  /**
+   * Serve a response from the disk cache when possible, otherwise fetch and store it
+   * @param range - The window the request covers, if any (profiles and repository lists have none)
+   */
+  private async withDiskCache<T>(request: string, range: DateRange | undefined, load: () => Promise<T>): Promise<T> {
+    if (!this.diskCache) {
+      return load();
+    }
 
-    // If we're still in the target year, use today as end date, otherwise use year end
-    const endDate = year === today.getFullYear() ? today : yearEnd;
+    const period = range ? `${range.from}..${range.to}` : 'current';
+    const key = this.diskCache.key(this.host.hostname, this.username, period, `rest ${request}`, this.token);
+    const cached = await this.diskCache.read<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
 
-    for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-      const dateStr = d.toISOString().split('T')[0];
-      contributions.push({
-        date: dateStr,
-        count: calendar[dateStr] || 0,
-      });
+    if (this.diskCache.mode === 'offline') {
+      throw new OfflineCacheMissError(`${this.username} (${request})`, range?.label);
     }
 
-    return contributions;
+    const data = await load();
+    await this.diskCache.write(key, data);
+    return data;
+  }
+
+  private toError(error: unknown, context: string): Error {
+    const mapped = toGitHubError(error, {
+      host: this.host,
+      hasToken: this.hasToken,
+      notFound: `GitHub user "${this.username}" not found on ${this.host.hostname}. Please check the username and try again.`,
+      requiredScopes: 'public_repo',
+    });
+    // Keep the step that failed in otherwise unexplained errors
+    return mapped.constructor === Error ? new Error(`${context}: ${error instanceof Error ? error.message : String(error)}`) : mapped;
   }
 }
@@ -0,0 +1,446 @@
+import type { GitHubUser, Repository, Commit, ContributionDay, DateRange, Period } from './types.js';
+import type { WrappedDataSource } from './data-source.js';
+import { periodToRange, validateRange, toIsoDate } from './utils/date-range.js';
+import type { DiskCache } from './utils/disk-cache.js';
+import { getRequestScheduler } from './utils/request-scheduler.js';
+import { NotFoundError, UnauthorizedError, RateLimitedError, InsufficientScopesError, NetworkError, NoDataError, OfflineCacheMissError, isNetworkFailure, rateLimitResetFrom, describeReset } from './errors.js';
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+// Events per page and a ceiling on pages, well above a busy year of pushes
+const PAGE_SIZE = 100;
+const MAX_EVENT_PAGES = 100;
+
+// Part of the disk cache key; bump when the shape of GitLabActivity changes
+const CACHE_SCHEMA = 'gitlab-activity-v1';
+
+interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+  avatar_url: string | null;
+  bio?: string | null;
+  created_at?: string;
+  followers?: number;
+  following?: number;
+}
+
+interface GitLabEvent {
+  action_name: string; // "pushed to", "pushed new", "opened", "approved", ...
+  target_type: string | null; // "MergeRequest", "Issue", ...
+  created_at: string;
+  project_id: number | null;
+  push_data?: {
+    commit_count: number;
+    commit_to: string | null;
+    commit_title: string | null;
+  };
+}
+
+interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  created_at: string;
+  last_activity_at: string;
+  languages: { [key: string]: number }; // percentages, as GitLab reports them
+}
+
+// Everything fetched for one user and period; cached on disk as a unit
+interface GitLabActivity {
+  user: GitLabUser;
+  projectCount: number;
+  events: GitLabEvent[];
+  projects: { [id: string]: GitLabProject };
+  mergeRequests: number;
+  issues: number;
+  reviews: number;
+}
+
+export interface GitLabClientOptions {
+  baseUrl?: string; // Instance URL, e.g. https://gitlab.example.com or a local mock (default: gitlab.com)
+  cache?: DiskCache;
+  onProgress?: (message: string) => void;
+}
+
+class GitLabHttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers?: Headers) {
+    super(message);
+    this.name = 'GitLabHttpError';
+  }
+}
+
+/**
+ * GitLab REST API (v4) client. Maps a user's events, merge requests, issues and
+ * project languages onto the GitHub-shaped types the analyzer and card export use:
+ * merge requests count as pull requests and MR approvals as reviews.
+ */
+export class GitLabClient implements WrappedDataSource {
+  readonly id = 'gitlab';
+  readonly displayName = 'GitLab';
+  readonly languageWeighting = 'repo-bytes';
+  private username: string;
+  private token?: string;
+  private baseUrl: string;
+  private hostname: string;
+  private diskCache?: DiskCache;
+  private onProgress?: (message: string) => void;
+  private fetch: typeof fetch;
+  private activityCache: Map<string, Promise<GitLabActivity>> = new Map();
+
+  constructor(username: string, token?: string, options: GitLabClientOptions = {}) {
+    this.username = username;
+    this.token = token;
+    this.baseUrl = (options.baseUrl || DEFAULT_GITLAB_URL).replace(/\/+$/, '');
+    this.diskCache = options.cache;
+    this.onProgress = options.onProgress;
+    this.fetch = getRequestScheduler().createFetch(options.onProgress);
+
+    try {
+      this.hostname = new URL(this.baseUrl).host;
+    } catch {
+      throw new Error(`Invalid GitLab URL "${options.baseUrl}". Expected something like https://gitlab.example.com.`);
+    }
+  }
+
+  async getUser(period: Period = new Date().getFullYear()): Promise<GitHubUser> {
+    const { user, projectCount } = await this.getActivity(period);
+
+    return {
+      login: user.username,
+      name: user.name || null,
+      avatar_url: user.avatar_url || null,
+      bio: user.bio || null,
+      public_repos: projectCount,
+      followers: user.followers || 0,
+      following: user.following || 0,
+      // Only admins see created_at on some instances; GitLab.com launched in 2011
+      created_at: user.created_at || '2011-01-01T00:00:00Z',
+    };
+  }
+
+  async getRepositories(period: Period = new Date().getFullYear()): Promise<Repository[]> {
+    const { projects } = await this.getActivity(period);
+
+    return Object.values(projects).map((project) => ({
+      name: project.name,
+      full_name: project.path_with_namespace,
+      description: project.description,
+      stargazers_count: project.star_count,
+      forks_count: project.forks_count,
+      language: Object.entries(project.languages).sort((a, b) => b[1] - a[1])[0]?.[0] || null,
+      created_at: project.created_at,
+      updated_at: project.last_activity_at,
+      size: 0,
+    }));
+  }
+
+  /**
+   * One commit per pushed commit. Push events only carry the head commit,
+   * so the others get an empty sha and message and the push's timestamp.
+   */
+  async getCommitsForYear(period: Period = new Date().getFullYear()): Promise<Commit[]> {
+    const { events, projects, user } = await this.getActivity(period);
+    const commits: Commit[] = [];
+
+    for (const event of events) {
+      const push = event.push_data;
+      if (!push || push.commit_count === 0) continue;
+
+      const repository = event.project_id !== null ? projects[event.project_id]?.name : undefined;
+      for (let i = 0; i < push.commit_count; i++) {
+        const isHead = i === 0;
+        commits.push({
+          sha: isHead ? push.commit_to || '' : '',
+          commit: {
+            author: {
+              name: user.name || user.username,
+              email: '',
+              date: event.created_at,
+            },
+            message: isHead ? push.commit_title || '' : '',
+          },
+          repository,
+        });
+      }
+    }
+
+    if (commits.length === 0) {
+      throw new NoDataError(`No commits found for ${this.username} in ${periodToRange(period).label}. Try a different period or username.`);
+    }
+
+    return commits;
+  }
+
+  async getPullRequests(period: Period = new Date().getFullYear()): Promise<number> {
+    return (await this.getActivity(period)).mergeRequests;
+  }
+
+  async getIssues(period: Period = new Date().getFullYear()): Promise<number> {
+    return (await this.getActivity(period)).issues;
+  }
+
+  async getCodeReviewCount(period: Period = new Date().getFullYear()): Promise<number> {
+    return (await this.getActivity(period)).reviews;
+  }
+
+  /**
+   * Each project's language percentages, weighted by the user's commits to it
+   */
+  async getLanguages(period: Period = new Date().getFullYear()): Promise<{ [key: string]: number }> {
+    const { events, projects } = await this.getActivity(period);
+    const languageStats: { [key: string]: number } = {};
+
+    for (const event of events) {
+      const project = event.project_id !== null ? projects[event.project_id] : undefined;
+      const commitCount = event.push_data?.commit_count || 0;
+      if (!project || commitCount === 0) continue;
+
+      for (const [language, percentage] of Object.entries(project.languages)) {
+        languageStats[language] = (languageStats[language] || 0) + (commitCount * percentage) / 100;
+      }
+    }
+
+    return languageStats;
+  }
+
+  /**
+   * Commits, opened merge requests and issues, and approvals per day - the same things
+   * GitHub's calendar counts (GitLab's own calendar also counts comments)
+   */
+  async getContributionCalendar(period: Period = new Date().getFullYear()): Promise<ContributionDay[]> {
+    const range = periodToRange(period);
+    const { events } = await this.getActivity(range);
+    const counts = new Map<string, number>();
+
+    for (const event of events) {
+      const weight = contributionWeight(event);
+      if (weight === 0) continue;
+      const day = event.created_at.slice(0, 10);
+      counts.set(day, (counts.get(day) || 0) + weight);
+    }
+
+    const contributions: ContributionDay[] = [];
+    for (let day = new Date(`${range.from}T00:00:00Z`); toIsoDate(day) <= range.to; day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = toIsoDate(day);
+      contributions.push({ date, count: counts.get(date) || 0 });
+    }
+
+    return contributions;
+  }
+
+  // Events do not carry diff sizes; the analyzer estimates instead
+  async getTotalLinesChanged(_period?: Period): Promise<undefined> {
+    return undefined;
+  }
+
+  async getTotalCommitCount(period: Period = new Date().getFullYear()): Promise<number> {
+    const { events } = await this.getActivity(period);
+    return events.reduce((sum, event) => sum + (event.push_data?.commit_count || 0), 0);
+  }
+
+  private getActivity(period: Period): Promise<GitLabActivity> {
+    const range = periodToRange(period);
+    const cacheKey = `${range.from}..${range.to}`;
+
+    // Return cached (or in-flight) data if available, so concurrent getters share one fetch
+    const cached = this.activityCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Reject future, reversed or longer-than-a-year windows before hitting the API
+    validateRange(range);
+
+    const request = this.loadActivity(range);
+    this.activityCache.set(cacheKey, request);
+    request.catch(() => this.activityCache.delete(cacheKey));
+
+    return request;
+  }
+
+  private async loadActivity(range: DateRange): Promise<GitLabActivity> {
+    if (!this.diskCache) {
+      return this.fetchActivity(range);
+    }
+
+    const key = this.diskCache.key(this.hostname, this.username, `${range.from}..${range.to}`, CACHE_SCHEMA, this.token);
+    const cached = await this.diskCache.read<GitLabActivity>(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (this.diskCache.mode === 'offline') {
+      throw new OfflineCacheMissError(this.username, range.label);
+    }
+
+    const activity = await this.fetchActivity(range);
+    await this.diskCache.write(key, activity);
+    return activity;
+  }
+
+  private async fetchActivity(range: DateRange): Promise<GitLabActivity> {
+    try {
+      this.onProgress?.(`Fetching GitLab user ${this.username}...`);
+      const { data: matches } = await this.request<GitLabUser[]>('/users', { username: this.username });
+      if (matches.length === 0) {
+        throw new GitLabHttpError(404, 'user');
+      }
+      const { data: user } = await this.request<GitLabUser>(`/users/${matches[0].id}`);
+      const { headers: projectHeaders } = await this.request<unknown[]>(`/users/${user.id}/projects`, { per_page: '1' });
+
+      // `after` and `before` are exclusive
+      const events = await this.fetchAllPages<GitLabEvent>(`/users/${user.id}/events`, {
+        after: shiftDate(range.from, -1),
+        before: shiftDate(range.to, 1),
+      });
+
+      const projects: { [id: string]: GitLabProject } = {};
+      const projectIds = [...new Set(events.map((event) => event.project_id).filter((id): id is number => id !== null))];
+      for (const [index, projectId] of projectIds.entries()) {
+        this.onProgress?.(`Fetching GitLab projects (${index + 1}/${projectIds.length})...`);
+        try {
+          const [{ data: project }, { data: languages }] = await Promise.all([
+            this.request<Omit<GitLabProject, 'languages'>>(`/projects/${projectId}`),
+            this.request<{ [key: string]: number }>(`/projects/${projectId}/languages`),
+          ]);
+          projects[projectId] = { ...project, languages };
+        } catch (error) {
+          // Projects deleted or made private since still count towards totals, just without details
+          if (error instanceof GitLabHttpError && error.status === 404) continue;
+          throw error;
+        }
+      }
+
+      this.onProgress?.('Counting GitLab merge requests and issues...');
+      const created = { created_after: `${range.from}T00:00:00Z`, created_before: `${range.to}T23:59:59Z`, scope: 'all' };
+      const countEvents = (targetType: string, action: string) =>
+        events.filter((event) => event.target_type === targetType && event.action_name === action).length;
+
+      const [mergeRequests, issues, reviews] = await Promise.all([
+        this.countTotal('/merge_requests', { ...created, author_username: this.username }, countEvents('MergeRequest', 'opened')),
+        this.countTotal('/issues', { ...created, author_username: this.username }, countEvents('Issue', 'opened')),
+        this.countTotal('/merge_requests', { ...created, reviewer_username: this.username }, countEvents('MergeRequest', 'approved')),
+      ]);
+
+      return {
+        user,
+        projectCount: Number(projectHeaders.get('x-total')) || 0,
+        events,
+        projects,
+        mergeRequests,
+        issues,
+        reviews,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorStatus = error instanceof GitLabHttpError ? error.status : undefined;
+
+      if (isNetworkFailure(error)) {
+        throw new NetworkError(`Could not reach ${this.hostname}. Check your internet connection and try again.`);
+      }
+
+      if (errorStatus === 404) {
+        throw new NotFoundError(`GitLab user "${this.username}" not found on ${this.hostname}. Please check the username and try again.`);
+      }
+
+      if (errorStatus === 401) {
+        throw new UnauthorizedError(`Invalid GitLab token. Please check your token and try again.
+
+Get a new token at: ${this.baseUrl}/-/user_settings/personal_access_tokens
+Required scopes: read_api`, !this.token);
+      }
+
+      if (errorStatus === 403) {
+        throw new InsufficientScopesError(`Your GitLab token cannot read this data. It needs the read_api scope.
+
+Update it at: ${this.baseUrl}/-/user_settings/personal_access_tokens`, ['read_api']);
+      }
+
+      if (errorStatus === 429) {
+        const resetAt = rateLimitResetFrom(error instanceof GitLabHttpError ? error.headers : undefined);
+        throw new RateLimitedError(`GitLab API rate limit exceeded.${describeReset(resetAt)}${this.token ? '' : ' A GitLab token raises the limit.'}`, resetAt);
+      }
+
+      throw new Error(`Failed to fetch data: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Follow X-Next-Page until it runs out, or the page ceiling is hit - which is reported,
+   * since the events past it are missing from the wrap
+   */
+  private async fetchAllPages<T>(path: string, params: { [key: string]: string }): Promise<T[]> {
+    const items: T[] = [];
+    let page: string | null = '1';
+
+    for (let fetched = 0; page && fetched < MAX_EVENT_PAGES; fetched++) {
+      if (fetched > 0) {
+        this.onProgress?.(`Fetching GitLab events (page ${fetched + 1})...`);
+      }
+      const { data, headers }: { data: T[]; headers: Headers } = await this.request<T[]>(path, { ...params, per_page: String(PAGE_SIZE), page });
+      items.push(...data);
+      page = headers.get('x-next-page') || null;
+    }
+
+    if (page) {
+      this.onProgress?.(`⚠ Stopped after ${MAX_EVENT_PAGES} pages (${items.length} events) of GitLab activity; older events in the period are left out.`);
+    }
+
+    return items;
+  }
+
+  /**
+   * Total from the X-Total header, or `fallback` when the endpoint needs a token
+   * or the instance omits the header (it does above 10,000 results)
+   */
+  private async countTotal(path: string, params: { [key: string]: string }, fallback: number): Promise<number> {
+    try {
+      const { headers } = await this.request<unknown[]>(path, { ...params, per_page: '1' });
+      const total = headers.get('x-total');
+      return total ? Number(total) : fallback;
+    } catch (error) {
+      if (error instanceof GitLabHttpError && (error.status === 401 || error.status === 403)) {
+        return fallback;
+      }
+      throw error;
+    }
+  }
+
+  private async request<T>(path: string, params: { [key: string]: string } = {}): Promise<{ data: T; headers: Headers }> {
+    const url = new URL(`${this.baseUrl}/api/v4${path}`);
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+
+    const response = await this.fetch(url, {
+      headers: {
+        'User-Agent': 'gh-wrapped-cli',
+        ...(this.token ? { 'PRIVATE-TOKEN': this.token } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new GitLabHttpError(response.status, `GitLab API ${response.status} for ${path}`, response.headers);
+    }
+
+    return { data: (await response.json()) as T, headers: response.headers };
+  }
+}
+
+// Contributions an event stands for, matching what GitHub's calendar counts
+function contributionWeight(event: GitLabEvent): number {
+  if (event.push_data) return event.push_data.commit_count;
+  if (event.action_name === 'opened' && (event.target_type === 'MergeRequest' || event.target_type === 'Issue')) return 1;
+  if (event.action_name === 'approved') return 1;
+  return 0;
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return toIsoDate(shifted);
+}
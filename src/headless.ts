@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import type { WrappedStats, ComparisonStats, TrendReport, OrgWrappedStats, TeamWrappedStats } from './types.js';
+import { ExitCode, exitCodeForError, CliUsageError, type CliOptions, type ExitCodeValue } from './cli.js';
+import { createDataSource, createMergedDataSource, type WrappedDataSource } from './data-source.js';
+import { GitHubOrgClient } from './github-org.js';
+import { fetchWrappedStats, fetchComparisonStats, fetchTrendReport, fetchOrgWrappedStats, fetchTeamWrappedStats } from './wrapped.js';
+import { formatStatsAsText, formatOrgStatsAsText, formatTeamStatsAsText } from './export-text.js';
+import { formatTrendAsCsv, formatTeamAsCsv } from './export-csv.js';
+import { serializeWrappedStats, serializeOrgWrappedStats, serializeTeamWrappedStats } from './export-json.js';
+import { getBrowserInstaller } from './utils/browser-installer.js';
+import { DiskCache } from './utils/disk-cache.js';
+import { discoverSourceToken, describeToken } from './utils/token-discovery.js';
+import { validateGitHubToken, describeMissingScopes } from './utils/token-validation.js';
+import { UnauthorizedError } from './errors.js';
+import type { PlaywrightExporterOptions } from './export-playwright.js';
+
+/**
+ * Run the wrapped pipeline without the Ink UI.
+ * Progress goes to stderr so stdout stays clean for the requested output.
+ * @returns Process exit code
+ */
+export async function runHeadless(options: CliOptions, detectedUsername: string | null): Promise<ExitCodeValue> {
+  const format = options.format || 'text';
+
+  try {
+    if (format === 'png') {
+      // Start early so Chromium installs while the data is fetched
+      getBrowserInstaller().startBackgroundInstall();
+    }
+
+    const period = options.period || new Date().getFullYear();
+
+    // Merged identities look up a token each
+    const discovered = options.identities ? null : discoverSourceToken(options.source, options.host, options.tokenEnv);
+    if (options.tokenEnv && !discovered && options.source !== 'local') {
+      throw new CliUsageError(`Environment variable ${options.tokenEnv} is not set.`);
+    }
+    if (discovered) {
+      logProgress(describeToken(discovered));
+      if (options.source.startsWith('github') && options.cache !== 'offline') {
+        await warnAboutMissingScopes(discovered.token, options);
+      }
+    }
+    const token = discovered?.token;
+
+    const clientOptions = {
+      host: options.host,
+      cache: new DiskCache({ mode: options.cache }),
+      onProgress: logProgress,
+    };
+    const sourceOptions = {
+      ...clientOptions,
+      token,
+      paths: options.local,
+      emails: options.authorEmails,
+      instanceUrl: options.instanceUrl,
+    };
+
+    if (options.org) {
+      const orgStats = await fetchOrgWrappedStats(new GitHubOrgClient(options.org, token, clientOptions), period, logProgress);
+      await writeOrgOutput(orgStats, format, options.out, { host: options.host, token });
+      return ExitCode.Success;
+    }
+
+    if (options.team) {
+      const teamStats = await fetchTeamWrappedStats(
+        (login) => createDataSource(options.source, login, sourceOptions),
+        (org) => new GitHubOrgClient(org, token, clientOptions),
+        options.team,
+        period,
+        logProgress,
+        options.timeZone
+      );
+      await writeTeamOutput(teamStats, format, options.out);
+      return ExitCode.Success;
+    }
+
+    let client: WrappedDataSource;
+    if (options.identities) {
+      client = createMergedDataSource(options.identities, clientOptions);
+    } else {
+      // Local wraps fall back to the git author name when no login is known
+      const username = options.user || detectedUsername || (options.local ? '' : null);
+      if (username === null) {
+        throw new CliUsageError('No username given and none could be detected from git config. Pass --user <login>.');
+      }
+      client = createDataSource(options.source, username, sourceOptions);
+    }
+
+    const stats = await fetchWrappedStats(client, period, logProgress, options.timeZone);
+    const comparison = options.compare
+      ? await fetchComparisonStats(client, stats, logProgress)
+      : undefined;
+    const trend = options.trend
+      ? await fetchTrendReport(client, logProgress, options.timeZone)
+      : undefined;
+
+    await writeOutput(stats, format, options.out, comparison, trend, { host: options.host, token, punchCard: options.punchCard });
+
+    return ExitCode.Success;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`✗ Error: ${message}\n`);
+    return exitCodeForError(error);
+  }
+}
+
+async function writeOutput(
+  stats: WrappedStats,
+  format: CliOptions['format'],
+  out?: string,
+  comparison?: ComparisonStats,
+  trend?: TrendReport,
+  exporterOptions?: PlaywrightExporterOptions
+): Promise<void> {
+  if (format === 'png') {
+    const { PlaywrightExporter } = await import('./export-playwright.js');
+    const exporter = new PlaywrightExporter(stats, exporterOptions);
+    const outputPath = await exporter.exportPNG(logProgress, out);
+    logProgress(`Saved ${outputPath}`);
+    return;
+  }
+
+  let content: string;
+  if (format === 'json') {
+    content = serializeWrappedStats(stats, comparison, trend);
+  } else if (format === 'csv' && trend) {
+    content = formatTrendAsCsv(trend);
+  } else {
+    content = formatStatsAsText(stats, comparison, trend);
+  }
+
+  await writeContent(content, out);
+}
+
+async function writeOrgOutput(
+  stats: OrgWrappedStats,
+  format: CliOptions['format'],
+  out?: string,
+  exporterOptions?: PlaywrightExporterOptions
+): Promise<void> {
+  if (format === 'png') {
+    const { OrgPlaywrightExporter } = await import('./export-playwright.js');
+    const exporter = new OrgPlaywrightExporter(stats, exporterOptions);
+    const outputPath = await exporter.exportPNG(logProgress, out);
+    logProgress(`Saved ${outputPath}`);
+    return;
+  }
+
+  const content = format === 'json'
+    ? serializeOrgWrappedStats(stats)
+    : formatOrgStatsAsText(stats);
+
+  await writeContent(content, out);
+}
+
+async function writeTeamOutput(stats: TeamWrappedStats, format: CliOptions['format'], out?: string): Promise<void> {
+  let content: string;
+  if (format === 'json') {
+    content = serializeTeamWrappedStats(stats);
+  } else if (format === 'csv') {
+    content = formatTeamAsCsv(stats);
+  } else {
+    content = formatTeamStatsAsText(stats);
+  }
+
+  await writeContent(content, out);
+}
+
+async function writeContent(content: string, out?: string): Promise<void> {
+  if (out) {
+    const outputPath = resolve(out);
+    await fs.writeFile(outputPath, content, 'utf-8');
+    logProgress(`Saved ${outputPath}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+/**
+ * Log which wanted scopes a GitHub token lacks. Only a rejected token stops the run;
+ * anything else is left for the fetch itself to report.
+ */
+async function warnAboutMissingScopes(token: string, options: CliOptions): Promise<void> {
+  try {
+    const report = await validateGitHubToken(token, options.host);
+    for (const line of describeMissingScopes(report)) {
+      logProgress(`⚠ Token is missing ${line}`);
+    }
+  } catch (error) {
+    if (error instanceof UnauthorizedError) throw error;
+  }
+}
+
+function logProgress(message: string): void {
+  process.stderr.write(`${message}\n`);
+}
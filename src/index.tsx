@@ -6,6 +6,9 @@ import { render } from 'ink';
 import { execSync } from 'child_process';
 import { GitHubWrappedApp } from './ui.js';
 import { getBrowserInstaller } from './utils/browser-installer.js';
+import { parseCliArgs, isHeadless, USAGE, CliUsageError, ExitCode } from './cli.js';
+import { runHeadless } from './headless.js';
+import { discoverSourceToken } from './utils/token-discovery.js';
 
 // Helper: Auto-detect GitHub username from git config
 function detectGitHubUsername(): string | null {
@@ -27,12 +30,25 @@ function detectGitHubUsername(): string | null {
 
 // Main function
 async function main() {
+  const options = parseCliArgs(process.argv.slice(2));
+
+  if (options.help) {
+    console.log(USAGE);
+    process.exit(ExitCode.Success);
+  }
+
+  if (isHeadless(options)) {
+    const exitCode = await runHeadless(options, detectGitHubUsername());
+    process.exit(exitCode);
+  }
+
   // Start background Chromium installation (non-blocking)
   // This runs while user is viewing their stats
   const browserInstaller = getBrowserInstaller();
   browserInstaller.startBackgroundInstall();
 
   const detected = detectGitHubUsername();
+  const initialToken = discoverSourceToken(options.source, options.host, options.tokenEnv);
 
   // Clear terminal and reset cursor
   process.stdout.write('\x1B[2J\x1B[3J\x1B[H');
@@ -42,7 +58,7 @@ async function main() {
 
   // Single render with proper cleanup
   const { waitUntilExit } = render(
-    <GitHubWrappedApp detectedUsername={detected} />
+    <GitHubWrappedApp detectedUsername={detected} initialPeriod={options.period} initialCompare={options.compare} initialTrend={options.trend} team={options.team} source={options.source} instanceUrl={options.instanceUrl} identities={options.identities} local={options.local ? { paths: options.local, emails: options.authorEmails } : undefined} cacheMode={options.cache} host={options.host} timeZone={options.timeZone} punchCard={options.punchCard} initialToken={initialToken} />
   );
 
   await waitUntilExit();
@@ -54,6 +70,11 @@ async function main() {
 }
 
 main().catch((error) => {
+  if (error instanceof CliUsageError) {
+    console.error(`✗ ${error.message}\n\n${USAGE}`);
+    process.exit(ExitCode.Usage);
+  }
+
   console.error('\n\n✗ Error:', error.message);
-  process.exit(1);
+  process.exit(ExitCode.Error);
 });
@@ -0,0 +1,490 @@
+import { execFile, execSync } from 'child_process';
+import { promisify } from 'util';
+import { existsSync, readdirSync, statSync } from 'fs';
+import { basename, extname, join, resolve } from 'path';
+import type { GitHubUser, Commit, Repository, ContributionDay, DateRange, Period } from './types.js';
+import type { WrappedDataSource } from './data-source.js';
+import { periodToRange, isWithinRange, toIsoDate } from './utils/date-range.js';
+import { NotFoundError, NoDataError, MissingConfigurationError } from './errors.js';
+
+const execFileAsync = promisify(execFile);
+
+// Separators unlikely to appear in commit messages: record, field and end-of-message
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+const MESSAGE_END = '\x1d';
+
+// Enough for `git log --numstat` over a few years of a busy monorepo
+const MAX_BUFFER = 256 * 1024 * 1024;
+
+interface LocalFileChange {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+interface LocalCommit {
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  date: string; // ISO 8601 with the author's UTC offset
+  message: string;
+  files: LocalFileChange[];
+}
+
+interface LocalRepository {
+  name: string;
+  path: string;
+  remote: string | null;
+  commits: LocalCommit[]; // only the configured authors' commits, newest first
+  fileSizes: Map<string, number>; // bytes per tracked path at HEAD
+}
+
+export interface LocalGitClientOptions {
+  emails?: string[]; // Author emails that count as "you" (default: git config user.email)
+  username?: string; // Shown instead of the git author name
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * Language by file extension; covers the languages the cards have colors for and a few more
+ */
+const EXTENSION_LANGUAGES: { [key: string]: string } = {
+  '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+  '.ts': 'TypeScript', '.tsx': 'TypeScript', '.mts': 'TypeScript', '.cts': 'TypeScript',
+  '.py': 'Python', '.pyi': 'Python',
+  '.java': 'Java',
+  '.c': 'C', '.h': 'C',
+  '.cc': 'C++', '.cpp': 'C++', '.cxx': 'C++', '.hpp': 'C++', '.hh': 'C++',
+  '.cs': 'C#',
+  '.php': 'PHP',
+  '.rb': 'Ruby',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.swift': 'Swift',
+  '.kt': 'Kotlin', '.kts': 'Kotlin',
+  '.scala': 'Scala',
+  '.dart': 'Dart',
+  '.ex': 'Elixir', '.exs': 'Elixir',
+  '.hs': 'Haskell',
+  '.lua': 'Lua',
+  '.m': 'Objective-C', '.mm': 'Objective-C',
+  '.html': 'HTML', '.htm': 'HTML',
+  '.css': 'CSS', '.scss': 'SCSS', '.sass': 'Sass', '.less': 'Less',
+  '.vue': 'Vue',
+  '.svelte': 'Svelte',
+  '.sh': 'Shell', '.bash': 'Shell', '.zsh': 'Shell',
+  '.ps1': 'PowerShell',
+  '.sql': 'SQL',
+  '.tf': 'HCL',
+  '.nix': 'Nix',
+  '.zig': 'Zig',
+};
+
+const FILENAME_LANGUAGES: { [key: string]: string } = {
+  Dockerfile: 'Dockerfile',
+  Makefile: 'Makefile',
+};
+
+/**
+ * Reads wraps straight from local git repositories - no GitHub API, no token.
+ * Accepts repositories and directories of clones; only commits by the configured emails count.
+ */
+export class LocalGitClient implements WrappedDataSource {
+  readonly id = 'local';
+  readonly displayName = 'local git';
+  readonly languageWeighting = 'lines-changed';
+  private paths: string[];
+  private emails: Set<string>;
+  private username?: string;
+  private onProgress?: (message: string) => void;
+  private repositories?: Promise<LocalRepository[]>;
+
+  constructor(paths: string[], options: LocalGitClientOptions = {}) {
+    this.paths = paths.map((path) => resolve(path));
+    const emails = options.emails?.length ? options.emails : [detectAuthorEmail()].filter((email): email is string => Boolean(email));
+    this.emails = new Set(emails.map((email) => email.trim().toLowerCase()).filter(Boolean));
+    this.username = options.username;
+    this.onProgress = options.onProgress;
+  }
+
+  async getUser(period: Period = new Date().getFullYear()): Promise<GitHubUser> {
+    const repositories = await this.loadRepositories();
+    const commits = repositories.flatMap((repo) => repo.commits);
+    const latest = commits.reduce<LocalCommit | undefined>((a, b) => (!a || b.date > a.date ? b : a), undefined);
+    const earliest = commits.reduce<LocalCommit | undefined>((a, b) => (!a || b.date < a.date ? b : a), undefined);
+    const name = latest?.authorName || null;
+
+    return {
+      login: this.username || name || [...this.emails][0].split('@')[0],
+      name,
+      avatar_url: null, // No avatar without a hosting service; the card falls back to its placeholder
+      bio: null,
+      public_repos: repositories.length,
+      followers: 0,
+      following: 0,
+      created_at: earliest ? new Date(earliest.date).toISOString() : new Date(`${periodToRange(period).from}T00:00:00Z`).toISOString(),
+    };
+  }
+
+  async getRepositories(period: Period = new Date().getFullYear()): Promise<Repository[]> {
+    const range = periodToRange(period);
+    const repositories = await this.loadRepositories();
+
+    return repositories
+      .filter((repo) => repo.commits.some((commit) => isWithinRange(commit.date, range)))
+      .map((repo) => {
+        const dates = repo.commits.map((commit) => commit.date).sort();
+        const languages = this.languageBytes([repo], range);
+        const primary = Object.entries(languages).sort((a, b) => b[1] - a[1])[0];
+        const totalBytes = [...repo.fileSizes.values()].reduce((sum, size) => sum + size, 0);
+
+        return {
+          name: repo.name,
+          full_name: repo.remote || repo.name,
+          description: null,
+          stargazers_count: 0,
+          forks_count: 0,
+          language: primary?.[0] || null,
+          created_at: new Date(dates[0]).toISOString(),
+          updated_at: new Date(dates[dates.length - 1]).toISOString(),
+          size: Math.round(totalBytes / 1024), // KB, like the GitHub API
+        };
+      });
+  }
+
+  async getCommitsForYear(period: Period = new Date().getFullYear()): Promise<Commit[]> {
+    const range = periodToRange(period);
+    const commits: Commit[] = [];
+
+    for (const repo of await this.loadRepositories()) {
+      for (const commit of repo.commits) {
+        if (!isWithinRange(commit.date, range)) continue;
+
+        commits.push({
+          sha: commit.sha,
+          commit: {
+            author: {
+              name: commit.authorName,
+              email: commit.authorEmail,
+              date: commit.date,
+            },
+            message: commit.message,
+          },
+          repository: repo.name,
+        });
+      }
+    }
+
+    if (commits.length === 0) {
+      throw new NoDataError(`No commits found for ${[...this.emails].join(', ')} in ${range.label}. Check --author-email and the repository paths.`);
+    }
+
+    return commits;
+  }
+
+  // Pull requests, issues and reviews live on the hosting service, not in git
+  async getPullRequests(_period?: Period): Promise<number> {
+    return 0;
+  }
+
+  async getIssues(_period?: Period): Promise<number> {
+    return 0;
+  }
+
+  async getCodeReviewCount(_period?: Period): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * The author's commits in the period, each split over its files' languages by lines added and removed
+   */
+  async getLanguages(period: Period = new Date().getFullYear()): Promise<{ [key: string]: number }> {
+    const range = periodToRange(period);
+    const languageStats: { [key: string]: number } = {};
+
+    for (const repo of await this.loadRepositories()) {
+      for (const commit of repo.commits) {
+        if (!isWithinRange(commit.date, range)) continue;
+
+        const lines: { [key: string]: number } = {};
+        for (const file of commit.files) {
+          const language = detectLanguage(file.path);
+          if (language) lines[language] = (lines[language] || 0) + file.additions + file.deletions;
+        }
+
+        // Binary files and pure renames report no lines; split those commits evenly
+        const touched = Object.keys(lines);
+        const totalLines = Object.values(lines).reduce((sum, count) => sum + count, 0);
+        for (const language of touched) {
+          const share = totalLines > 0 ? lines[language] / totalLines : 1 / touched.length;
+          languageStats[language] = (languageStats[language] || 0) + share;
+        }
+      }
+    }
+
+    return languageStats;
+  }
+
+  /**
+   * One entry per day of the period, like GitHub's calendar, counting the author's commits
+   */
+  async getContributionCalendar(period: Period = new Date().getFullYear()): Promise<ContributionDay[]> {
+    const range = periodToRange(period);
+    const counts = new Map<string, number>();
+
+    for (const repo of await this.loadRepositories()) {
+      for (const commit of repo.commits) {
+        // Bucket by the author's own calendar day, as recorded in the commit
+        const day = commit.date.slice(0, 10);
+        if (isWithinRange(day, range)) {
+          counts.set(day, (counts.get(day) || 0) + 1);
+        }
+      }
+    }
+
+    const contributions: ContributionDay[] = [];
+    for (let day = new Date(`${range.from}T00:00:00Z`); toIsoDate(day) <= range.to; day.setUTCDate(day.getUTCDate() + 1)) {
+      const date = toIsoDate(day);
+      contributions.push({ date, count: counts.get(date) || 0 });
+    }
+
+    return contributions;
+  }
+
+  async getTotalLinesChanged(period: Period = new Date().getFullYear()): Promise<{ additions: number; deletions: number; total: number }> {
+    const range = periodToRange(period);
+    let additions = 0;
+    let deletions = 0;
+
+    for (const repo of await this.loadRepositories()) {
+      for (const commit of repo.commits) {
+        if (!isWithinRange(commit.date, range)) continue;
+        for (const file of commit.files) {
+          additions += file.additions;
+          deletions += file.deletions;
+        }
+      }
+    }
+
+    return { additions, deletions, total: additions + deletions };
+  }
+
+  async getTotalCommitCount(period: Period = new Date().getFullYear()): Promise<number> {
+    const range = periodToRange(period);
+    const repositories = await this.loadRepositories();
+    return repositories.reduce((sum, repo) => sum + repo.commits.filter((commit) => isWithinRange(commit.date, range)).length, 0);
+  }
+
+  /**
+   * Read every repository's history once; all periods are filtered from the same data
+   */
+  private loadRepositories(): Promise<LocalRepository[]> {
+    if (!this.repositories) {
+      this.repositories = this.readRepositories();
+      // Let a failed scan be retried instead of caching the rejection
+      this.repositories.catch(() => {
+        this.repositories = undefined;
+      });
+    }
+    return this.repositories;
+  }
+
+  private async readRepositories(): Promise<LocalRepository[]> {
+    if (this.emails.size === 0) {
+      throw new MissingConfigurationError('No author email configured. Pass --author-email or set git config user.email.');
+    }
+
+    const repoPaths = this.paths.flatMap((path) => findRepositories(path));
+    if (repoPaths.length === 0) {
+      throw new NotFoundError(`No git repositories found in ${this.paths.join(', ')}.`);
+    }
+
+    const repositories: LocalRepository[] = [];
+    for (const [index, path] of repoPaths.entries()) {
+      this.onProgress?.(`Reading ${basename(path)} (${index + 1}/${repoPaths.length})...`);
+      repositories.push(await this.readRepository(path));
+    }
+
+    return repositories;
+  }
+
+  private async readRepository(path: string): Promise<LocalRepository> {
+    const authorArgs = [...this.emails].map((email) => `--author=${escapeRegExp(email)}`);
+
+    // An empty repository has no HEAD and nothing to read; any other failure is a real error
+    const head = await gitOptional(path, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+    const [log, tree, remote] = await Promise.all([
+      head === null ? '' : git(path, [
+        'log', '--all', '--no-merges', '--regexp-ignore-case', ...authorArgs,
+        `--pretty=format:${RECORD}%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}%B${MESSAGE_END}`,
+        '--numstat',
+      ]),
+      head === null ? '' : git(path, ['ls-tree', '-r', '-l', '--full-tree', 'HEAD']),
+      gitOptional(path, ['config', '--get', 'remote.origin.url']),
+    ]);
+
+    const commits = parseLog(log).filter((commit) => this.emails.has(commit.authorEmail.toLowerCase()));
+
+    const fileSizes = new Map<string, number>();
+    for (const line of tree.split('\n')) {
+      // <mode> blob <sha> <size>\t<path>
+      const match = line.match(/^\d+ blob [0-9a-f]+\s+(\d+)\t(.+)$/);
+      if (match) fileSizes.set(match[2], Number(match[1]));
+    }
+
+    return {
+      name: basename(path),
+      path,
+      remote: remoteToFullName(remote?.trim() || ''),
+      commits,
+      fileSizes,
+    };
+  }
+
+  private languageBytes(repositories: LocalRepository[], range: DateRange): { [key: string]: number } {
+    const languageStats: { [key: string]: number } = {};
+
+    for (const repo of repositories) {
+      const touched = new Set<string>();
+      for (const commit of repo.commits) {
+        if (!isWithinRange(commit.date, range)) continue;
+        for (const file of commit.files) touched.add(file.path);
+      }
+
+      for (const path of touched) {
+        const size = repo.fileSizes.get(path);
+        const language = detectLanguage(path);
+        // Files deleted since are gone from HEAD and no longer count
+        if (size === undefined || !language) continue;
+        languageStats[language] = (languageStats[language] || 0) + size;
+      }
+    }
+
+    return languageStats;
+  }
+}
+
+/**
+ * The author email git would use here, from the current repository's or the global config
+ */
+export function detectAuthorEmail(): string | null {
+  try {
+    return execSync('git config user.email', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'], timeout: 5000 }).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A repository itself, or the repositories one level below a directory of clones
+ */
+function findRepositories(path: string): string[] {
+  if (!existsSync(path)) {
+    throw new NotFoundError(`Path not found: ${path}`);
+  }
+  if (existsSync(join(path, '.git'))) {
+    return [path];
+  }
+
+  return readdirSync(path)
+    .map((entry) => join(path, entry))
+    .filter((entry) => {
+      try {
+        return statSync(entry).isDirectory() && existsSync(join(entry, '.git'));
+      } catch {
+        return false;
+      }
+    })
+    .sort();
+}
+
+// A git command that failed; exitCode is git's own exit status when it ran at all
+class GitCommandError extends Error {
+  constructor(message: string, readonly exitCode?: number) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', cwd, '-c', 'core.quotepath=off', ...args], {
+      encoding: 'utf-8',
+      maxBuffer: MAX_BUFFER,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+    return stdout;
+  } catch (error) {
+    const code = typeof error === 'object' && error !== null && 'code' in error ? error.code : undefined;
+    if (code === 'ENOENT') {
+      throw new GitCommandError('git is not installed or not on your PATH. Install git to read local repositories.');
+    }
+
+    const stderr = typeof error === 'object' && error !== null && 'stderr' in error && typeof error.stderr === 'string' ? error.stderr.trim() : '';
+    const reason = stderr.split('\n')[0] || (error instanceof Error ? error.message : String(error));
+    throw new GitCommandError(`git ${args[0]} failed in ${cwd}: ${reason}`, typeof code === 'number' ? code : undefined);
+  }
+}
+
+// Exit code 1 means "no such thing" for `rev-parse --verify` and `config --get`, which is null here
+async function gitOptional(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    return await git(cwd, args);
+  } catch (error) {
+    if (error instanceof GitCommandError && error.exitCode === 1) return null;
+    throw error;
+  }
+}
+
+function parseLog(output: string): LocalCommit[] {
+  const commits: LocalCommit[] = [];
+
+  for (const record of output.split(RECORD)) {
+    const end = record.indexOf(MESSAGE_END);
+    if (end === -1) continue;
+
+    const [sha, authorName, authorEmail, date, ...message] = record.slice(0, end).split(FIELD);
+    const files: LocalFileChange[] = [];
+
+    for (const line of record.slice(end + 1).split('\n')) {
+      // <additions>\t<deletions>\t<path>; binary files report "-"
+      const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+      if (!match) continue;
+      files.push({
+        path: resolveRenamedPath(match[3]),
+        additions: match[1] === '-' ? 0 : Number(match[1]),
+        deletions: match[2] === '-' ? 0 : Number(match[2]),
+      });
+    }
+
+    commits.push({ sha, authorName, authorEmail, date, message: message.join(FIELD).trim(), files });
+  }
+
+  return commits;
+}
+
+// numstat writes renames as "dir/{old => new}/file" or "old => new"; keep the new path
+function resolveRenamedPath(path: string): string {
+  if (!path.includes(' => ')) return path;
+  if (/\{.* => .*\}/.test(path)) {
+    return path.replace(/\{(.*?) => (.*?)\}/, '$2').replace(/\/\//g, '/');
+  }
+  return path.split(' => ')[1];
+}
+
+function detectLanguage(path: string): string | null {
+  const name = basename(path);
+  return FILENAME_LANGUAGES[name] || EXTENSION_LANGUAGES[extname(name).toLowerCase()] || null;
+}
+
+// "git@github.com:owner/repo.git" or "https://host/owner/repo.git" -> "owner/repo"
+function remoteToFullName(remote: string): string | null {
+  if (!remote) return null;
+  const match = remote.replace(/\.git$/, '').match(/[:/]([^/:]+\/[^/]+)$/);
+  return match ? match[1] : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -3,7 +3,7 @@
 export interface GitHubUser {
   login: string;
   name: string | null;
-  avatar_url: string;
+  avatar_url: string | null; // null when the source has no avatars (local git)
   bio: string | null;
   public_repos: number;
   followers: number;
@@ -22,6 +22,7 @@ export interface Commit {
     message: string;
   };
   repository?: string; // Repository name (added by GraphQL client)
+  dateOnly?: boolean; // Only the day is known, so hour-of-day stats leave it out
 }
 
 export interface Repository {
@@ -38,16 +39,34 @@ export interface Repository {
 
 export interface Language {
   name: string;
-  bytes: number;
+  weight: number; // What the percentage is computed from - see LanguageWeighting (bytes for organizations)
   percentage: number;
   color?: string;
 }
 
+/**
+ * How a source splits each commit across languages:
+ * - repo-bytes: by the byte sizes of the languages in the repository it landed in
+ * - lines-changed: by the lines the commit itself added and removed per language
+ * - primary-language: entirely to the repository's primary language
+ * - mixed: merged identities whose sources weigh differently
+ */
+export type LanguageWeighting = 'repo-bytes' | 'lines-changed' | 'primary-language' | 'mixed';
+
 export interface ContributionDay {
   date: string;
   count: number;
 }
 
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  label: string; // e.g. "2025", "Q2 2025", "Last 90 days"
+}
+
+// A calendar year or an explicit date range
+export type Period = number | DateRange;
+
 export interface WrappedStats {
   user: GitHubUser;
   totalCommits: number;
@@ -58,10 +77,13 @@ export interface WrappedStats {
   longestStreak: number;
   currentStreak: number;
   topLanguages: Language[];
+  languageWeighting: LanguageWeighting; // How commits were split across topLanguages
   topRepos: Repository[];
   contributions: ContributionDay[];
   peakHour: number;
+  punchCard: number[][]; // Commits per weekday (7 rows, 0 = Sunday) and hour (24 columns), in timeZone
   busiestDay: string;
+  monthly: MonthlyBreakdown;
   mostActiveRepo: string;
   totalLinesChanged: number;
   archetype: Archetype;
@@ -70,6 +92,47 @@ export interface WrappedStats {
   avgCommitsPerDay: number;
   year: number;
   dateRange: string;
+  period: DateRange;
+  timeZone: string; // IANA zone the peak hour was computed in, e.g. "Asia/Tokyo"
+  sources?: SourceBreakdown[]; // Per-identity totals, only for merged wraps
+}
+
+export interface MonthlyTotal {
+  month: string; // YYYY-MM
+  label: string; // e.g. "Mar 2025"
+  contributions: number; // Sum of the contribution calendar within the period
+  change: number | null; // Whole percentage vs the previous month, null for the first month or after an empty one
+}
+
+export interface MonthlyBreakdown {
+  months: MonthlyTotal[]; // Every month the period touches, in order
+  bestMonth: string; // YYYY-MM with the most contributions
+  quietestMonth: string; // YYYY-MM with the fewest contributions
+  momentum: number; // Whole percentage change of the average month in the second half of the period vs the first half
+}
+
+// One account on one host, e.g. { source: 'gitlab', login: 'jane', instance: 'https://gitlab.example.com' }
+export interface Identity {
+  source: string; // Data source id from the registry
+  login: string;
+  instance?: string; // GitHub Enterprise hostname, or GitLab/Gitea instance URL
+}
+
+export interface SourceBreakdown {
+  source: string; // Display name, e.g. "GitLab"
+  login: string;
+  host: string; // e.g. "github.com" or "gitlab.example.com"
+  totalCommits: number;
+  totalPRs: number;
+  totalIssues: number;
+  totalContributions: number; // Sum of the identity's contribution calendar
+}
+
+// What a GitHub token can see, checked right after it is entered
+export interface TokenScopeReport {
+  login: string; // Owner of the token
+  scopes: string[] | null; // Granted OAuth scopes, null for fine-grained tokens (GitHub does not list them)
+  missing: Array<{ scope: string; reason: string }>; // Wanted scopes the token lacks and what is lost without each
 }
 
 export interface Archetype {
@@ -95,17 +158,19 @@ export interface ExportOptions {
 
 export interface YearComparison {
   year: number;
+  label: string; // e.g. "2024" or "Q2 2024"
   totalCommits: number;
   totalPRs: number;
   totalIssues: number;
+  totalReviews?: number;
   longestStreak: number;
   topLanguages: Language[];
   peakHour: number;
 }
 
 export interface ComparisonStats {
-  year2024: YearComparison;
-  year2025: YearComparison;
+  previous: YearComparison;
+  current: YearComparison;
   growth: {
     commits: number; // percentage
     prs: number;
@@ -114,9 +179,125 @@ export interface ComparisonStats {
   };
 }
 
+export interface TrendReport {
+  username: string;
+  years: YearComparison[]; // one entry per calendar year, oldest first
+  totals: {
+    commits: number;
+    prs: number;
+    issues: number;
+    reviews: number;
+  };
+  busiestYear: number; // year with the most commits
+  longestStreak: {
+    year: number;
+    days: number;
+  };
+}
+
+export interface GitHubOrg {
+  login: string;
+  name: string | null;
+  avatar_url: string;
+  description: string | null;
+  public_repos: number;
+  created_at: string;
+}
+
+// One organization repository and what happened in it during the period
+export interface OrgRepositoryActivity {
+  repository: Repository;
+  commits: number; // default-branch commits authored in the period
+  authors: { [key: string]: OrgContributor }; // keyed by login, or by author name for commits without a linked account
+  languages: { [key: string]: number }; // language name -> bytes
+}
+
+export interface OrgActivity {
+  org: GitHubOrg;
+  repositories: OrgRepositoryActivity[]; // repositories pushed to since the period started
+  totalRepos: number;
+  totalPRs: number;
+  totalIssues: number;
+}
+
+export interface OrgContributor {
+  login: string | null; // null when the commit author has no linked GitHub account
+  name: string;
+  avatar_url?: string;
+  commits: number;
+}
+
+export interface OrgRepoSummary {
+  name: string;
+  commits: number;
+  contributors: number;
+  stars: number;
+  language: string | null;
+}
+
+export interface OrgWrappedStats {
+  org: GitHubOrg;
+  totalCommits: number;
+  totalPRs: number;
+  totalIssues: number;
+  totalRepos: number;
+  activeRepos: number; // repositories with at least one commit in the period
+  totalContributors: number;
+  topContributors: OrgContributor[];
+  busiestRepos: OrgRepoSummary[];
+  topLanguages: Language[]; // weighted by repository size in bytes
+  newRepos: Repository[];
+  year: number;
+  dateRange: string;
+  period: DateRange;
+}
+
+// Either an explicit list of usernames or an organization team to expand into its members
+export type TeamSelector =
+  | { usernames: string[] }
+  | { org: string; slug: string };
+
+export interface TeamMember {
+  stats: WrappedStats;
+  totalReviews: number;
+  languageStats: { [key: string]: number }; // raw per-language commit counts, before the top-5 cut
+}
+
+export interface LeaderboardEntry {
+  login: string;
+  value: number;
+}
+
+export interface TeamWrappedStats {
+  name: string; // "org/slug" or a list of logins
+  members: TeamMember[];
+  inactiveMembers: string[]; // members without commits in the period, left out of the boards
+  totals: {
+    commits: number;
+    prs: number;
+    issues: number;
+    reviews: number;
+  };
+  leaderboards: {
+    commits: LeaderboardEntry[];
+    prs: LeaderboardEntry[];
+    reviews: LeaderboardEntry[];
+    streak: LeaderboardEntry[];
+  };
+  topLanguages: Language[];
+  achievements: Array<{ achievement: Achievement; holders: string[] }>; // every achievement unlocked by at least one member
+  year: number;
+  dateRange: string;
+  period: DateRange;
+}
+
 export type AppState =
-  | { phase: 'username_input'; detectedUsername: string | null }
-  | { phase: 'fetching_data'; username: string; token?: string; message: string }
-  | { phase: 'token_request'; username: string; error?: string }
-  | { phase: 'stats_display'; stats: WrappedStats; comparisonStats?: ComparisonStats }
+  | { phase: 'username_input'; detectedUsername: string | null; error?: string }
+  | { phase: 'year_select'; username: string }
+  | { phase: 'comparison_prompt'; username: string; period: Period }
+  | { phase: 'fetching_data'; username: string; period: Period; compare: boolean; trend: boolean; token?: string; tokenSource?: string; message: string }
+  | { phase: 'token_request'; username: string; period: Period; compare: boolean; trend: boolean; error?: string }
+  | { phase: 'token_validation'; username: string; period: Period; compare: boolean; trend: boolean; token: string }
+  | { phase: 'token_scopes'; username: string; period: Period; compare: boolean; trend: boolean; token: string; report: TokenScopeReport }
+  | { phase: 'stats_display'; stats: WrappedStats; comparisonStats?: ComparisonStats; trendReport?: TrendReport; teamStats?: TeamWrappedStats; token?: string }
   | { phase: 'error'; error: string };
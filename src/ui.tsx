@@ -4,9 +4,16 @@ import Spinner from 'ink-spinner';
 import TextInput from 'ink-text-input';
 import SelectInput from 'ink-select-input';
 import { openFile } from './utils/file-opener.js';
-import type { WrappedStats, ComparisonStats, AppState } from './types.js';
-import { GitHubGraphQLClient } from './github-graphql.js';
-import { StatsAnalyzer } from './analytics.js';
+import type { WrappedStats, ContributionDay, ComparisonStats, TrendReport, TeamWrappedStats, TeamSelector, LeaderboardEntry, AppState, Period, Identity, SourceBreakdown, TokenScopeReport } from './types.js';
+import { createDataSource, createMergedDataSource, describeLanguageWeighting, DEFAULT_DATA_SOURCE } from './data-source.js';
+import { GitHubOrgClient } from './github-org.js';
+import { fetchWrappedStats, fetchComparisonStats, fetchTrendReport, fetchTeamWrappedStats } from './wrapped.js';
+import { periodToRange, lastDaysRange, previousYearRange, toIsoDate } from './utils/date-range.js';
+import { DiskCache, type CacheMode } from './utils/disk-cache.js';
+import { resolveGitHubHost, tokenSettingsUrl, type GitHubHost } from './utils/github-host.js';
+import { describeToken, type DiscoveredToken } from './utils/token-discovery.js';
+import { validateGitHubToken } from './utils/token-validation.js';
+import { NotFoundError, UnauthorizedError, RateLimitedError, InsufficientScopesError } from './errors.js';
 
 // Matrix green color
 const green = '#00FF41';
@@ -91,9 +98,10 @@ interface Props {
   onSubmit: (username: string) => void;
   error?: string | null;
   detectedUsername?: string | null;
+  periodLabel?: string;
 }
 
-export function UsernameInput({ onSubmit, error, detectedUsername }: Props) {
+export function UsernameInput({ onSubmit, error, detectedUsername, periodLabel }: Props) {
   const [manualEntry, setManualEntry] = useState(false);
   const [username, setUsername] = useState('');
 
@@ -240,7 +248,7 @@ export function UsernameInput({ onSubmit, error, detectedUsername }: Props) {
         </Box>
 
         <Box marginBottom={3} justifyContent="center">
-          <Text color="green" dimColor>━━━ YOUR 2025 CODE JOURNEY ━━━</Text>
+          <Text color="green" dimColor>━━━ {periodLabel ? `YOUR ${periodLabel.toUpperCase()} CODE JOURNEY` : 'YOUR CODE JOURNEY'} ━━━</Text>
         </Box>
 
         {/* Menu or Input Box */}
@@ -330,9 +338,10 @@ export function UsernameInput({ onSubmit, error, detectedUsername }: Props) {
 
 interface LoadingProps {
   message: string;
+  tokenSource?: string;
 }
 
-export function LoadingScreen({ message }: LoadingProps) {
+export function LoadingScreen({ message, tokenSource }: LoadingProps) {
   // Extract progress if in message format
   const progressMatch = message.match(/(\d+)%/);
   const hasProgress = progressMatch !== null;
@@ -359,6 +368,12 @@ export function LoadingScreen({ message }: LoadingProps) {
         <Text color="green"> {message.replace(/\d+%/, '').trim()}</Text>
       </Box>
 
+      {tokenSource && (
+        <Box marginBottom={1}>
+          <Text color="gray" dimColor>🔑 {tokenSource}</Text>
+        </Box>
+      )}
+
       {hasProgress && (
         <>
           <Box marginBottom={1}>
@@ -379,9 +394,10 @@ interface TokenInputProps {
   onSubmit: (token: string) => void;
   onSkip: () => void;
   error?: string | null;
+  host?: GitHubHost;
 }
 
-export function TokenInput({ onSubmit, onSkip, error }: TokenInputProps) {
+export function TokenInput({ onSubmit, onSkip, error, host = resolveGitHubHost() }: TokenInputProps) {
   const [token, setToken] = useState('');
 
   const handleSubmit = () => {
@@ -418,10 +434,10 @@ export function TokenInput({ onSubmit, onSkip, error }: TokenInputProps) {
           <Text color="yellow">With a token, you get 5,000 requests/hour.</Text>
         </Box>
         <Box marginBottom={1}>
-          <Text color="green">Get a token: https://github.com/settings/tokens</Text>
+          <Text color="green">Get a token: {tokenSettingsUrl(host)}</Text>
         </Box>
         <Box>
-          <Text color="green" dimColor>(No special permissions needed - just create with no scopes)</Text>
+          <Text color="green" dimColor>(Give it the read:user scope, plus repo to include private contributions)</Text>
         </Box>
       </Box>
 
@@ -462,19 +478,137 @@ export function TokenInput({ onSubmit, onSkip, error }: TokenInputProps) {
   );
 }
 
+interface TokenScopeReviewProps {
+  report: TokenScopeReport;
+  onContinue: () => void;
+  onReenter: () => void;
+  host?: GitHubHost;
+}
+
+export function TokenScopeReview({ report, onContinue, onReenter, host = resolveGitHubHost() }: TokenScopeReviewProps) {
+  const menuItems = [
+    { label: '➡️  Continue with reduced data', value: 'continue' },
+    { label: '🔑 Enter a different token', value: 'reenter' },
+  ];
+
+  const handleMenuSelect = (item: { value: string }) => {
+    if (item.value === 'continue') {
+      onContinue();
+    } else {
+      onReenter();
+    }
+  };
+
+  return (
+    <Box flexDirection="column" padding={2}>
+      <Box marginBottom={1}>
+        <Text bold color="yellow">⚠ Token for {report.login} is missing scopes</Text>
+      </Box>
+
+      <Box
+        borderStyle="single"
+        borderColor="yellow"
+        paddingX={2}
+        paddingY={1}
+        flexDirection="column"
+        width={70}
+        marginBottom={2}
+      >
+        <Box marginBottom={1}>
+          <Text color="white">Granted: {report.scopes && report.scopes.length > 0 ? report.scopes.join(', ') : 'no scopes'}</Text>
+        </Box>
+        {report.missing.map(({ scope, reason }) => (
+          <Box key={scope}>
+            <Text color="yellow">✗ {scope}</Text>
+            <Text color="gray"> - needed for {reason}</Text>
+          </Box>
+        ))}
+        <Box marginTop={1}>
+          <Text color="green">Update it at: {tokenSettingsUrl(host)}</Text>
+        </Box>
+      </Box>
+
+      <Box flexDirection="column">
+        <SelectInput items={menuItems} onSelect={handleMenuSelect} />
+      </Box>
+    </Box>
+  );
+}
+
+interface YearSelectProps {
+  username: string;
+  onSelect: (period: Period) => void;
+}
+
+export function YearSelect({ username, onSelect }: YearSelectProps) {
+  const currentYear = new Date().getFullYear();
+
+  // GitHub launched in 2008, so offer every year since then
+  const yearItems = Array.from({ length: currentYear - 2007 }, (_, i) => {
+    const year = currentYear - i;
+    return {
+      label: year === currentYear ? `📅 ${year} (so far)` : `📅 ${year}`,
+      value: String(year),
+    };
+  });
+
+  // Rolling window right after the current year; other ranges are available via CLI flags
+  const menuItems = [
+    yearItems[0],
+    { label: '🕒 Last 90 days', value: 'last-90' },
+    ...yearItems.slice(1),
+  ];
+
+  const handleMenuSelect = (item: { value: string }) => {
+    onSelect(item.value === 'last-90' ? lastDaysRange(90) : Number(item.value));
+  };
+
+  return (
+    <Box flexDirection="column" padding={2}>
+      <Box marginBottom={2}>
+        <Text bold color="green">Hi {username}! 👋</Text>
+      </Box>
+
+      <Box
+        borderStyle="single"
+        borderColor="green"
+        paddingX={2}
+        paddingY={1}
+        flexDirection="column"
+        width={70}
+        marginBottom={2}
+      >
+        <Box marginBottom={1}>
+          <Text color="yellow" bold>Which period do you want to unwrap?</Text>
+        </Box>
+        <Box>
+          <Text color="green" dimColor>Use ↑↓ arrows to select, Enter to confirm</Text>
+        </Box>
+      </Box>
+
+      <Box flexDirection="column">
+        <SelectInput items={menuItems} onSelect={handleMenuSelect} limit={6} />
+      </Box>
+    </Box>
+  );
+}
+
 interface ComparisonPromptProps {
   username: string;
-  onChoice: (wantComparison: boolean) => void;
+  currentLabel: string;
+  previousLabel: string;
+  onChoice: (wantComparison: boolean, wantTrend: boolean) => void;
 }
 
-export function ComparisonPrompt({ username, onChoice }: ComparisonPromptProps) {
+export function ComparisonPrompt({ username, currentLabel, previousLabel, onChoice }: ComparisonPromptProps) {
   const menuItems = [
-    { label: '📊 Yes, compare with 2024', value: 'yes' },
-    { label: '➡️  No, show 2025 only', value: 'no' },
+    { label: `📊 Yes, compare with ${previousLabel}`, value: 'yes' },
+    { label: '📈 Show my whole history, year by year', value: 'trend' },
+    { label: `➡️  No, show ${currentLabel} only`, value: 'no' },
   ];
 
   const handleMenuSelect = (item: { value: string }) => {
-    onChoice(item.value === 'yes');
+    onChoice(item.value === 'yes', item.value === 'trend');
   };
 
   return (
@@ -496,7 +630,7 @@ export function ComparisonPrompt({ username, onChoice }: ComparisonPromptProps)
           <Text color="yellow" bold>Want to see how you improved?</Text>
         </Box>
         <Box marginBottom={1}>
-          <Text color="white">Compare your 2025 stats with 2024 to see your growth!</Text>
+          <Text color="white">Compare your {currentLabel} stats with {previousLabel} to see your growth!</Text>
         </Box>
         <Box>
           <Text color="green" dimColor>(This will fetch additional data and may take longer)</Text>
@@ -516,12 +650,15 @@ interface StatsDisplayProps {
   onExit: () => void;
   onShare?: (platform: 'twitter' | 'linkedin') => Promise<void>;
   comparisonStats?: ComparisonStats | null;
+  trendReport?: TrendReport | null;
+  teamStats?: TeamWrappedStats | null;
+  host?: GitHubHost;
+  token?: string;
+  punchCard?: boolean; // Draw the punch card on exported PNG cards
   boxWidth?: number;
   verticalPadding?: number;
 }
 
-// Removed unused generateContributionHeatmap function (dead code)
-
 // Individual Slide Components
 function ContributionsSlide({ stats }: { stats: WrappedStats }) {
   const animatedCount = useCountUp(stats.totalCommits, 1500);
@@ -557,7 +694,7 @@ function ContributionsSlide({ stats }: { stats: WrappedStats }) {
 
       {/* Main headline */}
       <Box marginBottom={1}>
-        <Text color="white" bold>IN {stats.year}, YOU MADE</Text>
+        <Text color="white" bold>IN {stats.period.label.toUpperCase()}, YOU MADE</Text>
       </Box>
 
       {/* Big number - centered, larger and bolder */}
@@ -632,8 +769,9 @@ function LanguagesSlide({ stats }: { stats: WrappedStats }) {
       </Box>
 
       {/* Subtitle */}
-      <Box marginBottom={1}>
-        <Text color="white" dimColor>Most used in {stats.year}</Text>
+      <Box marginBottom={1} flexDirection="column" alignItems="center">
+        <Text color="white" dimColor>Most used in {stats.period.label}</Text>
+        <Text color="gray">{describeLanguageWeighting(stats.languageWeighting)}</Text>
       </Box>
 
       {/* Language bars - centered */}
@@ -782,6 +920,7 @@ function StreakSlide({ stats }: { stats: WrappedStats }) {
           <Box marginBottom={1}>
             <Text color="cyan">⏰ Peak Hour: </Text>
             <Text color="green" bold>{formatHour(stats.peakHour)}</Text>
+            <Text color="gray" dimColor> {stats.timeZone}</Text>
           </Box>
           <Box marginBottom={1}>
             <Text color="cyan">📅 Busiest Day: </Text>
@@ -797,6 +936,289 @@ function StreakSlide({ stats }: { stats: WrappedStats }) {
   );
 }
 
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * First and last day of the longest run of contribution days, matching StatsAnalyzer.calculateStreak
+ */
+function longestStreakDates(contributions: ContributionDay[]): { from: string; to: string } | null {
+  const sorted = [...contributions].sort((a, b) => a.date.localeCompare(b.date));
+  let best: { from: string; to: string; length: number } | null = null;
+  let start = 0;
+
+  for (let i = 0; i <= sorted.length; i++) {
+    if (i < sorted.length && sorted[i].count > 0) continue;
+    const length = i - start;
+    if (length > 0 && (!best || length > best.length)) {
+      best = { from: sorted[start].date, to: sorted[i - 1].date, length };
+    }
+    start = i + 1;
+  }
+
+  return best && { from: best.from, to: best.to };
+}
+
+function CalendarSlide({ stats, width }: { stats: WrappedStats; width: number }) {
+  const counts = new Map(stats.contributions.map((day) => [day.date, day.count]));
+  const max = Math.max(...stats.contributions.map((day) => day.count), 1);
+  const streak = longestStreakDates(stats.contributions);
+  const total = stats.contributions.reduce((sum, day) => sum + day.count, 0);
+
+  // Weeks start on Sunday, like GitHub's graph
+  const from = Date.parse(`${stats.period.from}T00:00:00Z`);
+  const to = Date.parse(`${stats.period.to}T00:00:00Z`);
+  const firstSunday = from - new Date(from).getUTCDay() * DAY_MS;
+  const weeks = Math.floor((to - firstSunday) / (7 * DAY_MS)) + 1;
+
+  // Two characters per week when there is room, one on medium terminals, a monthly summary below that
+  const labelWidth = 4;
+  const cellWidth = width >= weeks * 2 + labelWidth ? 2 : width >= weeks + labelWidth ? 1 : 0;
+
+  const inStreak = (date: string) => streak !== null && date >= streak.from && date <= streak.to;
+  const cellFor = (date: string, time: number): [string, string] => {
+    if (time < from || time > to) return [' ', 'gray'];
+    const count = counts.get(date) ?? 0;
+    if (count === 0) return ['·', 'gray'];
+    const shade = ['░', '▒', '▓', '█'][Math.min(Math.ceil((count / max) * 4), 4) - 1];
+    return [shade, inStreak(date) ? 'yellow' : count / max > 0.5 ? green : darkGreen];
+  };
+
+  const header = (
+    <>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>📅 YOUR CONTRIBUTION CALENDAR</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="white" dimColor>
+          {total.toLocaleString()} contributions in {stats.period.label}
+        </Text>
+      </Box>
+    </>
+  );
+
+  const streakLine = streak && (
+    <Box marginTop={1}>
+      <Text color="yellow">
+        🔥 Longest streak: {stats.longestStreak} days ({formatDay(streak.from)} - {formatDay(streak.to)})
+      </Text>
+    </Box>
+  );
+
+  if (cellWidth === 0) {
+    // Narrow terminal: one bar per month
+    const months = new Map<string, number>();
+    for (let time = from; time <= to; time += DAY_MS) {
+      const date = toIsoDate(new Date(time));
+      const month = date.slice(0, 7);
+      months.set(month, (months.get(month) ?? 0) + (counts.get(date) ?? 0));
+    }
+    const maxMonth = Math.max(...months.values(), 1);
+    const barWidth = Math.max(width - 16, 10);
+
+    return (
+      <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+        {header}
+        <Box flexDirection="column" marginY={1}>
+          {[...months.entries()].map(([month, count]) => {
+            const hasStreak = streak !== null && month >= streak.from.slice(0, 7) && month <= streak.to.slice(0, 7);
+            return (
+              <Box key={month}>
+                <Text color="white">{MONTH_LABELS[Number(month.slice(5, 7)) - 1]} </Text>
+                <Text color={hasStreak ? 'yellow' : green}>
+                  {'█'.repeat(Math.max(count > 0 ? 1 : 0, Math.round((count / maxMonth) * barWidth)))}
+                </Text>
+                <Text color="gray"> {count.toLocaleString()}</Text>
+              </Box>
+            );
+          })}
+        </Box>
+        {streakLine}
+      </Box>
+    );
+  }
+
+  // Month names above the week in which each month starts
+  const monthRow = new Array(labelWidth + weeks * cellWidth).fill(' ');
+  for (let week = 0; week < weeks; week++) {
+    for (let day = 0; day < 7; day++) {
+      const time = firstSunday + (week * 7 + day) * DAY_MS;
+      const date = toIsoDate(new Date(time));
+      if (time >= from && time <= to && (date.endsWith('-01') || time === from)) {
+        const label = MONTH_LABELS[Number(date.slice(5, 7)) - 1];
+        const column = labelWidth + week * cellWidth;
+        if (monthRow.slice(column - 1, column + label.length).every((char) => char === ' ')) {
+          label.split('').forEach((char, i) => { monthRow[column + i] = char; });
+        }
+      }
+    }
+  }
+
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      {header}
+      <Box flexDirection="column" marginY={1}>
+        <Text color="gray">{monthRow.join('').trimEnd()}</Text>
+        {WEEKDAY_LABELS.map((weekday, day) => (
+          <Box key={weekday}>
+            <Box width={labelWidth}>
+              <Text color="gray">{day % 2 === 1 ? weekday : ''}</Text>
+            </Box>
+            {Array.from({ length: weeks }, (_, week) => {
+              const time = firstSunday + (week * 7 + day) * DAY_MS;
+              const [cell, color] = cellFor(toIsoDate(new Date(time)), time);
+              return <Text key={week} color={color}>{cell.repeat(cellWidth)}</Text>;
+            })}
+          </Box>
+        ))}
+      </Box>
+      <Box>
+        <Text color="gray">Less </Text>
+        <Text color="gray">·</Text>
+        <Text color={darkGreen}>░▒</Text>
+        <Text color={green}>▓█</Text>
+        <Text color="gray"> More  </Text>
+        <Text color="yellow">█</Text>
+        <Text color="gray"> Longest streak</Text>
+      </Box>
+      {streakLine}
+    </Box>
+  );
+}
+
+function MonthlySlide({ stats, width }: { stats: WrappedStats; width: number }) {
+  const { months, bestMonth, quietestMonth, momentum } = stats.monthly;
+  const maxMonth = Math.max(...months.map((month) => month.contributions), 1);
+  const barWidth = Math.max(Math.min(40, width - 36), 10);
+  // Years only matter when the period crosses one
+  const spansYears = months[0].month.slice(0, 4) !== months[months.length - 1].month.slice(0, 4);
+
+  const best = months.find((month) => month.month === bestMonth)!;
+  const quietest = months.find((month) => month.month === quietestMonth)!;
+  const momentumColor = momentum > 0 ? 'green' : momentum < 0 ? 'red' : 'yellow';
+  const momentumSymbol = momentum > 0 ? '↗' : momentum < 0 ? '↘' : '→';
+
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>📆 MONTH BY MONTH</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="white" dimColor>Contributions per month in {stats.period.label}</Text>
+      </Box>
+
+      <Box flexDirection="column" marginY={1}>
+        {months.map((month) => {
+          const isBest = month.month === bestMonth;
+          const isQuietest = month.month === quietestMonth && bestMonth !== quietestMonth;
+          return (
+            <Box key={month.month}>
+              <Box width={spansYears ? 10 : 5}>
+                <Text color={isBest ? green : 'white'} bold={isBest}>{spansYears ? month.label : month.label.slice(0, 3)}</Text>
+              </Box>
+              <Text color={isBest ? green : isQuietest ? 'gray' : darkGreen}>
+                {'█'.repeat(Math.max(month.contributions > 0 ? 1 : 0, Math.round((month.contributions / maxMonth) * barWidth)))}
+              </Text>
+              <Text color="gray"> {month.contributions.toLocaleString()}</Text>
+              {month.change !== null && (
+                <Text color={month.change > 0 ? 'green' : month.change < 0 ? 'red' : 'yellow'}>
+                  {' '}{month.change > 0 ? '+' : ''}{month.change}%
+                </Text>
+              )}
+              {isBest && <Text> 🏆</Text>}
+              {isQuietest && <Text> 💤</Text>}
+            </Box>
+          );
+        })}
+      </Box>
+
+      <Box>
+        <Text color="yellow">
+          🏆 Best month: {best.label} ({best.contributions.toLocaleString()}) • 💤 Quietest: {quietest.label} ({quietest.contributions.toLocaleString()})
+        </Text>
+      </Box>
+      {months.length > 1 && (
+        <Box>
+          <Text color="white">Momentum: </Text>
+          <Text color={momentumColor} bold>{momentum > 0 ? '+' : ''}{momentum}% {momentumSymbol}</Text>
+          <Text color="gray"> second half of the period vs the first</Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+// Shades for punch card cells, from no commits to the busiest hour
+const PUNCH_SHADES: Array<[string, string]> = [['··', 'gray'], ['░░', darkGreen], ['▒▒', darkGreen], ['▓▓', green], ['██', green]];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function PunchCardSlide({ stats }: { stats: WrappedStats }) {
+  const { punchCard } = stats;
+  const max = Math.max(...punchCard.flat(), 1);
+  const total = punchCard.flat().reduce((sum, count) => sum + count, 0);
+
+  // Where the commits fell, so the archetype can be checked against the grid
+  const share = (hours: [number, number], days: number[] = [0, 1, 2, 3, 4, 5, 6]) => {
+    const count = days.reduce((sum, day) => sum + punchCard[day].slice(hours[0], hours[1]).reduce((a, b) => a + b, 0), 0);
+    return Math.round((count / Math.max(total, 1)) * 100);
+  };
+  const dayParts: Array<[string, number]> = [
+    ['🌙 Night 0-5', share([0, 5])],
+    ['🌅 Morning 5-12', share([5, 12])],
+    ['☀️ Afternoon 12-18', share([12, 18])],
+    ['🌆 Evening 18-24', share([18, 24])],
+  ];
+
+  let peak = { day: 0, hour: 0 };
+  punchCard.forEach((hours, day) => hours.forEach((count, hour) => {
+    if (count > punchCard[peak.day][peak.hour]) peak = { day, hour };
+  }));
+
+  const shadeFor = (count: number) => PUNCH_SHADES[count === 0 ? 0 : Math.ceil((count / max) * (PUNCH_SHADES.length - 1))];
+
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>🕐 WHEN YOU CODE</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="white" dimColor>
+          {total.toLocaleString()} commits by weekday and hour • {stats.timeZone}
+        </Text>
+      </Box>
+
+      <Box flexDirection="column" marginY={1}>
+        <Box>
+          <Text color="gray">{'    '}{Array.from({ length: 8 }, (_, i) => String(i * 3).padEnd(6)).join('')}</Text>
+        </Box>
+        {punchCard.map((hours, day) => (
+          <Box key={day}>
+            <Text color={day === peak.day ? green : 'white'}>{WEEKDAY_LABELS[day]} </Text>
+            {hours.map((count, hour) => {
+              const [cell, color] = shadeFor(count);
+              return <Text key={hour} color={color}>{cell}</Text>;
+            })}
+          </Box>
+        ))}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text color="white">
+          {dayParts.map(([label, percent]) => `${label}: ${percent}%`).join('  ')}
+        </Text>
+      </Box>
+      <Box>
+        <Text color="white">🎉 Weekends: {share([0, 24], [0, 6])}%</Text>
+      </Box>
+      <Box marginTop={1}>
+        <Text color="yellow">
+          ⏰ Busiest slot: {WEEKDAY_LABELS[peak.day]} {formatHour(peak.hour)} • {stats.archetype.emoji} {stats.archetype.name}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
 // NEW SLIDE: PRs & Issues
 function PRsAndIssuesSlide({ stats }: { stats: WrappedStats }) {
   const animatedPRs = useCountUp(stats.totalPRs, 1000);
@@ -941,9 +1363,7 @@ function AchievementsSlide({ stats }: { stats: WrappedStats }) {
 }
 
 function ComparisonSlide({ comparisonStats }: { comparisonStats: ComparisonStats }) {
-  const { year2024, year2025, growth } = comparisonStats;
-  const prevYear = year2024.year;
-  const currYear = year2025.year;
+  const { previous, current, growth } = comparisonStats;
 
   // Animate growth percentages
   const commitsGrowth = useCountUp(growth.commits, 1500);
@@ -969,7 +1389,7 @@ function ComparisonSlide({ comparisonStats }: { comparisonStats: ComparisonStats
         <Text color="cyan" bold>📊 YEAR OVER YEAR COMPARISON</Text>
       </Box>
       <Box marginBottom={2}>
-        <Text color="white" dimColor>{prevYear} vs {currYear} - Your Growth Story</Text>
+        <Text color="white" dimColor>{previous.label} vs {current.label} - Your Growth Story</Text>
       </Box>
 
       <Box flexDirection="column" marginTop={1} width={85}>
@@ -977,9 +1397,9 @@ function ComparisonSlide({ comparisonStats }: { comparisonStats: ComparisonStats
         <Box marginY={1} borderStyle="round" borderColor="green" paddingX={2} flexDirection="row" justifyContent="space-between">
           <Text color="white">💻 Commits:</Text>
           <Box>
-            <Text color="gray" dimColor>{year2024.totalCommits}</Text>
+            <Text color="gray" dimColor>{previous.totalCommits}</Text>
             <Text color="white"> → </Text>
-            <Text color="green" bold>{year2025.totalCommits}</Text>
+            <Text color="green" bold>{current.totalCommits}</Text>
             <Text color={getGrowthColor(commitsGrowth)}> ({commitsGrowth > 0 ? '+' : ''}{commitsGrowth}% {getGrowthSymbol(commitsGrowth)})</Text>
           </Box>
         </Box>
@@ -988,9 +1408,9 @@ function ComparisonSlide({ comparisonStats }: { comparisonStats: ComparisonStats
         <Box marginY={1} borderStyle="round" borderColor="green" paddingX={2} flexDirection="row" justifyContent="space-between">
           <Text color="white">🔀 PRs:</Text>
           <Box>
-            <Text color="gray" dimColor>{year2024.totalPRs}</Text>
+            <Text color="gray" dimColor>{previous.totalPRs}</Text>
             <Text color="white"> → </Text>
-            <Text color="green" bold>{year2025.totalPRs}</Text>
+            <Text color="green" bold>{current.totalPRs}</Text>
             <Text color={getGrowthColor(prsGrowth)}> ({prsGrowth > 0 ? '+' : ''}{prsGrowth}% {getGrowthSymbol(prsGrowth)})</Text>
           </Box>
         </Box>
@@ -999,9 +1419,9 @@ function ComparisonSlide({ comparisonStats }: { comparisonStats: ComparisonStats
         <Box marginY={1} borderStyle="round" borderColor="green" paddingX={2} flexDirection="row" justifyContent="space-between">
           <Text color="white">🐛 Issues:</Text>
           <Box>
-            <Text color="gray" dimColor>{year2024.totalIssues}</Text>
+            <Text color="gray" dimColor>{previous.totalIssues}</Text>
             <Text color="white"> → </Text>
-            <Text color="green" bold>{year2025.totalIssues}</Text>
+            <Text color="green" bold>{current.totalIssues}</Text>
             <Text color={getGrowthColor(issuesGrowth)}> ({issuesGrowth > 0 ? '+' : ''}{issuesGrowth}% {getGrowthSymbol(issuesGrowth)})</Text>
           </Box>
         </Box>
@@ -1010,9 +1430,9 @@ function ComparisonSlide({ comparisonStats }: { comparisonStats: ComparisonStats
         <Box marginY={1} borderStyle="round" borderColor="green" paddingX={2} flexDirection="row" justifyContent="space-between">
           <Text color="white">🔥 Streak:</Text>
           <Box>
-            <Text color="gray" dimColor>{year2024.longestStreak}</Text>
+            <Text color="gray" dimColor>{previous.longestStreak}</Text>
             <Text color="white"> → </Text>
-            <Text color="green" bold>{year2025.longestStreak}</Text>
+            <Text color="green" bold>{current.longestStreak}</Text>
             <Text color={getGrowthColor(streakGrowth)}> ({streakGrowth > 0 ? '+' : ''}{streakGrowth}% {getGrowthSymbol(streakGrowth)})</Text>
           </Box>
         </Box>
@@ -1068,6 +1488,11 @@ function ExportSlide({ stats }: { stats: WrappedStats }) {
           <Text color="white">Export as PNG</Text>
         </Box>
 
+        <Box marginBottom={1}>
+          <Text color="cyan" bold>[J] </Text>
+          <Text color="white">Export as JSON</Text>
+        </Box>
+
         <Box>
           <Text color="red" bold>[Q] </Text>
           <Text color="white">Exit</Text>
@@ -1124,15 +1549,9 @@ function FarewellSlide({ stats, action }: { stats: WrappedStats; action?: string
 
   // Show final message
   if (showMessage) {
-    // ASCII art for "2025"
-    const year2025Art = [
-      '██████╗  ██████╗ ██████╗ ███████╗',
-      '╚════██╗██╔═████╗╚════██╗██╔════╝',
-      ' █████╔╝██║██╔██║ █████╔╝███████╗',
-      '██╔═══╝ ████╔╝██║██╔═══╝ ╚════██║',
-      '███████╗╚██████╔╝███████╗███████║',
-      '╚══════╝ ╚═════╝ ╚══════╝╚══════╝'
-    ];
+    // ASCII art for the wrapped year
+    const yearArt = renderDigitArt(stats.year);
+    const nextYear = Math.max(stats.year + 1, new Date().getFullYear());
 
     // ASCII art for "WRAPPED"
     const wrappedArt = [
@@ -1146,9 +1565,9 @@ function FarewellSlide({ stats, action }: { stats: WrappedStats; action?: string
 
     return (
       <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
-        {/* 2025 ASCII Art */}
+        {/* Year ASCII Art */}
         <Box marginBottom={1} flexDirection="column" alignItems="center">
-          {year2025Art.map((line, i) => (
+          {yearArt.map((line, i) => (
             <Text key={i} color="cyan" bold>{line}</Text>
           ))}
         </Box>
@@ -1165,9 +1584,9 @@ function FarewellSlide({ stats, action }: { stats: WrappedStats; action?: string
           <Text color="gray">─────────────────────────────────────────────────────</Text>
         </Box>
 
-        {/* See you in 2026 */}
+        {/* See you next year */}
         <Box marginBottom={1} justifyContent="center">
-          <Text color="green" bold>SEE YOU IN 2026</Text>
+          <Text color="green" bold>SEE YOU IN {nextYear}</Text>
         </Box>
 
         {/* Exit button */}
@@ -1231,8 +1650,171 @@ function FarewellSlide({ stats, action }: { stats: WrappedStats; action?: string
   );
 }
 
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+function sparkline(values: number[]): string {
+  const max = Math.max(...values, 1);
+  return values.map((value) => SPARK_CHARS[Math.round((value / max) * (SPARK_CHARS.length - 1))]).join('');
+}
+
+function TrendSlide({ trendReport }: { trendReport: TrendReport }) {
+  const { years, totals, busiestYear, longestStreak } = trendReport;
+  // Keep the bar chart readable for accounts older than a decade
+  const recentYears = years.slice(-10);
+  const maxCommits = Math.max(...recentYears.map((year) => year.totalCommits), 1);
+  const barWidth = 40;
+
+  const sparkRows: Array<[string, number[]]> = [
+    ['🔀 PRs', years.map((year) => year.totalPRs)],
+    ['🐛 Issues', years.map((year) => year.totalIssues)],
+    ['👀 Reviews', years.map((year) => year.totalReviews || 0)],
+    ['🔥 Streak', years.map((year) => year.longestStreak)],
+  ];
+
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>📈 YOUR GITHUB JOURNEY</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="white" dimColor>
+          {years[0]?.year} - {years[years.length - 1]?.year} • {totals.commits.toLocaleString()} commits • {totals.prs.toLocaleString()} PRs
+        </Text>
+      </Box>
+
+      <Box flexDirection="column" marginY={1}>
+        {recentYears.map((year) => (
+          <Box key={year.year}>
+            <Text color={year.year === busiestYear ? green : 'white'} bold={year.year === busiestYear}>{year.year}  </Text>
+            <Text color={year.year === busiestYear ? green : darkGreen}>
+              {'█'.repeat(Math.max(year.totalCommits > 0 ? 1 : 0, Math.round((year.totalCommits / maxCommits) * barWidth)))}
+            </Text>
+            <Text color="gray"> {year.totalCommits.toLocaleString()}</Text>
+          </Box>
+        ))}
+      </Box>
+
+      <Box flexDirection="column" marginTop={1}>
+        {sparkRows.map(([label, values]) => (
+          <Box key={label}>
+            <Box width={14}>
+              <Text color="white">{label}</Text>
+            </Box>
+            <Text color={green}>{sparkline(values)}</Text>
+            <Text color="gray"> max {Math.max(...values, 0).toLocaleString()}</Text>
+          </Box>
+        ))}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text color="yellow">
+          🏆 Busiest year: {busiestYear} • Longest streak: {longestStreak.days} days ({longestStreak.year})
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+function SourcesSlide({ sources, stats }: { sources: SourceBreakdown[]; stats: WrappedStats }) {
+  const maxContributions = Math.max(...sources.map((source) => source.totalContributions), 1);
+  const barWidth = 30;
+
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>🔗 ACROSS YOUR ACCOUNTS</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="white" dimColor>
+          {sources.length} accounts • {stats.totalCommits.toLocaleString()} commits • {stats.totalPRs.toLocaleString()} PRs • {stats.totalIssues.toLocaleString()} issues combined
+        </Text>
+      </Box>
+
+      <Box flexDirection="column" marginY={1}>
+        {sources.map((source) => (
+          <Box key={`${source.host}/${source.login}`} flexDirection="column" marginBottom={1}>
+            <Text color="yellow" bold>
+              {source.source} <Text color="white">@{source.login}</Text> <Text color="gray">{source.host}</Text>
+            </Text>
+            <Box>
+              <Text color={green}>
+                {'█'.repeat(Math.max(source.totalContributions > 0 ? 1 : 0, Math.round((source.totalContributions / maxContributions) * barWidth)))}
+              </Text>
+              <Text color="gray"> {source.totalContributions.toLocaleString()} contributions</Text>
+            </Box>
+            <Text color="white" dimColor>
+              {source.totalCommits.toLocaleString()} commits • {source.totalPRs.toLocaleString()} PRs • {source.totalIssues.toLocaleString()} issues
+            </Text>
+          </Box>
+        ))}
+      </Box>
+
+      <Box>
+        <Text color="yellow">🔥 Longest streak across all of them: {stats.longestStreak} days</Text>
+      </Box>
+    </Box>
+  );
+}
+
+function LeaderboardSlide({ teamStats, login }: { teamStats: TeamWrappedStats; login: string }) {
+  const { totals, leaderboards, topLanguages, achievements, members } = teamStats;
+
+  const boards: Array<[string, LeaderboardEntry[], string]> = [
+    ['💻 Commits', leaderboards.commits, ''],
+    ['🔀 PRs', leaderboards.prs, ''],
+    ['👀 Reviews', leaderboards.reviews, ''],
+    ['🔥 Streak', leaderboards.streak, 'd'],
+  ];
+
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>🏆 TEAM LEADERBOARD</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="white" dimColor>
+          {teamStats.name} • {members.length} members • {totals.commits.toLocaleString()} commits • {totals.prs.toLocaleString()} PRs • {totals.reviews.toLocaleString()} reviews
+        </Text>
+      </Box>
+
+      <Box marginY={1}>
+        {boards.map(([title, entries, unit]) => (
+          <Box key={title} flexDirection="column" width={24} marginX={1}>
+            <Text color="yellow" bold>{title}</Text>
+            {entries.slice(0, 5).map((entry, i) => {
+              // Highlight the person running the wrap
+              const isYou = entry.login.toLowerCase() === login.toLowerCase();
+              return (
+                <Text key={entry.login} color={isYou ? green : 'white'} bold={isYou}>
+                  {i + 1}. {entry.login.length > 12 ? `${entry.login.slice(0, 11)}…` : entry.login} <Text color="gray">{entry.value.toLocaleString()}{unit}</Text>
+                </Text>
+              );
+            })}
+          </Box>
+        ))}
+      </Box>
+
+      {topLanguages.length > 0 && (
+        <Box marginTop={1}>
+          <Text color="white">
+            🌐 Team languages: {topLanguages.slice(0, 3).map((lang) => `${lang.name} ${lang.percentage.toFixed(0)}%`).join(' • ')}
+          </Text>
+        </Box>
+      )}
+
+      {achievements.length > 0 && (
+        <Box>
+          <Text color={green}>
+            {achievements.slice(0, 3).map(({ achievement, holders }) => `${achievement.emoji} ${achievement.name} ×${holders.length}`).join('  ')}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
 // Main Slideshow Component
-export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats, boxWidth: propBoxWidth, verticalPadding: propVerticalPadding }: StatsDisplayProps) {
+export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats, trendReport, teamStats, host, token, punchCard, boxWidth: propBoxWidth, verticalPadding: propVerticalPadding }: StatsDisplayProps) {
   const [currentSlide, setCurrentSlide] = useState(0);
   const [actionTaken, setActionTaken] = useState<string | null>(null);
   const [showFarewell, setShowFarewell] = useState(false);
@@ -1241,12 +1823,17 @@ export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats
   const [exportError, setExportError] = useState<string | null>(null);
   const [exportPath, setExportPath] = useState<string>('');
   const [exportSuccess, setExportSuccess] = useState(false);
+  const [lastExportFormat, setLastExportFormat] = useState<'png' | 'json'>('png');
 
   // Use provided values or defaults
   const boxWidth = propBoxWidth || 100;
   const verticalPadding = propVerticalPadding || 1;
   const boxHeight = Math.floor(boxWidth * 0.5); // Same height calculation as landing pages
 
+  // Room inside the double border and padding; the box never shrinks below 80 columns, the terminal might
+  const { stdout } = useStdout();
+  const slideWidth = Math.min(boxWidth, stdout?.columns || boxWidth) - 10;
+
   // Enable stdin raw mode for arrow keys on Windows
   useEffect(() => {
     if (process.stdin.isTTY && process.stdin.setRawMode) {
@@ -1266,23 +1853,81 @@ export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats
       <LanguagesSlide key="langs" stats={stats} />,
       <ArchetypeSlide key="arch" stats={stats} />,
       <StreakSlide key="streak" stats={stats} />,
+      <CalendarSlide key="calendar" stats={stats} width={slideWidth} />,
+      <MonthlySlide key="monthly" stats={stats} width={slideWidth} />,
       <PRsAndIssuesSlide key="prs" stats={stats} />,
       <AchievementsSlide key="achieve" stats={stats} />,
     ];
 
+    // Add the punch card after the calendar and monthly slides when there are commit timestamps to place
+    if (stats.punchCard.some((hours) => hours.some((count) => count > 0))) {
+      baseSlides.splice(6, 0, <PunchCardSlide key="punch" stats={stats} />);
+    }
+
     // Add comparison slide if data is available
     if (comparisonStats) {
       baseSlides.push(<ComparisonSlide key="comparison" comparisonStats={comparisonStats} />);
     }
 
+    // Add trend slide if the whole history was fetched
+    if (trendReport) {
+      baseSlides.push(<TrendSlide key="trend" trendReport={trendReport} />);
+    }
+
+    // Add the per-account breakdown when several identities were merged
+    if (stats.sources) {
+      baseSlides.push(<SourcesSlide key="sources" sources={stats.sources} stats={stats} />);
+    }
+
+    // Add the team leaderboard when run with --team
+    if (teamStats) {
+      baseSlides.push(<LeaderboardSlide key="team" teamStats={teamStats} login={stats.user.login} />);
+    }
+
     // Add export slide
     baseSlides.push(<ExportSlide key="export" stats={stats} />);
 
     return baseSlides;
-  }, [stats, comparisonStats]);
+  }, [stats, comparisonStats, trendReport, teamStats, slideWidth]);
   const totalSlides = slides.length;
   const exportSlideIndex = totalSlides - 1;
 
+  // Execute export with progress feedback
+  const runExport = (format: 'png' | 'json') => {
+    setLastExportFormat(format);
+    setIsProcessing(true);
+    setExportError(null);
+    setExportStatus('Initializing...');
+
+    (async () => {
+      try {
+        let outputPath: string;
+
+        if (format === 'json') {
+          const { exportJSON } = await import('./export-json.js');
+          setExportStatus('Writing JSON...');
+          outputPath = await exportJSON(stats, undefined, comparisonStats ?? undefined, trendReport ?? undefined);
+        } else {
+          const { PlaywrightExporter } = await import('./export-playwright.js');
+          const exporter = new PlaywrightExporter(stats, { host, token, punchCard });
+
+          setExportStatus('Starting export...');
+          outputPath = await exporter.exportPNG((status: string) => {
+            setExportStatus(status);
+          });
+        }
+
+        // Success - show success screen
+        setExportPath(outputPath);
+        setExportSuccess(true);
+        setIsProcessing(false);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        setExportError(errorMsg);
+      }
+    })();
+  };
+
   useInput((input, key) => {
     // If showing export success, handle Enter to continue to farewell
     if (exportSuccess) {
@@ -1323,30 +1968,7 @@ export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats
     // If processing with error, allow retry with R
     if (isProcessing && exportError) {
       if (input === 'r' || input === 'R') {
-        setExportError(null);
-        setExportStatus('Initializing...');
-
-        // Retry export with progress feedback
-        (async () => {
-          try {
-            const { PlaywrightExporter } = await import('./export-playwright.js');
-            const exporter = new PlaywrightExporter(stats);
-
-            setExportStatus('Starting export...');
-            const outputPath = await exporter.exportPNG((status: string) => {
-              setExportStatus(status);
-            });
-
-            // Success - show success screen
-            setExportPath(outputPath);
-            setExportSuccess(true);
-            setIsProcessing(false);
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            setExportError(errorMsg);
-            setIsProcessing(false);
-          }
-        })();
+        runExport(lastExportFormat);
       } else if (input === 'q' || input === 'Q') {
         onExit();
       }
@@ -1361,31 +1983,9 @@ export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats
     // If on export slide (last slide), handle letter key shortcuts
     if (currentSlide === exportSlideIndex) {
       if (input === 'e' || input === 'E') {
-        setIsProcessing(true);
-        setExportError(null);
-        setExportStatus('Initializing...');
-
-        // Execute export with progress feedback
-        (async () => {
-          try {
-            const { PlaywrightExporter } = await import('./export-playwright.js');
-            const exporter = new PlaywrightExporter(stats);
-
-            setExportStatus('Starting export...');
-            const outputPath = await exporter.exportPNG((status: string) => {
-              setExportStatus(status);
-            });
-
-            // Success - show success screen
-            setExportPath(outputPath);
-            setExportSuccess(true);
-            setIsProcessing(false);
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            setExportError(errorMsg);
-            setIsProcessing(false);
-          }
-        })();
+        runExport('png');
+      } else if (input === 'j' || input === 'J') {
+        runExport('json');
       } else if (input === 'q' || input === 'Q') {
         onExit();
       } else if (key.leftArrow) {
@@ -1480,7 +2080,7 @@ export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats
         {!showFarewell && !exportSuccess && !isProcessing && (
           <Box justifyContent="center">
             {currentSlide === exportSlideIndex ? (
-              <Text color="cyan" dimColor>E: Export • T: Twitter • L: LinkedIn • Q: Skip • ESC: Exit</Text>
+              <Text color="cyan" dimColor>E: Export PNG • J: Export JSON • Q: Skip • ESC: Exit</Text>
             ) : (
               <Text color="green" dimColor>← → to navigate • ESC to exit</Text>
             )}
@@ -1497,9 +2097,22 @@ export function StatsDisplay({ stats, onExport, onExit, onShare, comparisonStats
 
 interface GitHubWrappedAppProps {
   detectedUsername: string | null;
+  initialPeriod?: Period;
+  initialCompare?: boolean;
+  initialTrend?: boolean;
+  team?: TeamSelector;
+  source?: string; // Data source id from the registry (default: github)
+  instanceUrl?: string; // Self-hosted instance for the gitlab and gitea sources
+  identities?: Identity[]; // Accounts merged into one wrap, replacing source and username
+  local?: { paths: string[]; emails?: string[] }; // Repositories for the local source
+  cacheMode?: CacheMode;
+  host?: GitHubHost;
+  timeZone?: string; // IANA zone for the peak hour (default: the system zone)
+  punchCard?: boolean; // Draw the punch card on exported PNG cards
+  initialToken?: DiscoveredToken | null;
 }
 
-export function GitHubWrappedApp({ detectedUsername }: GitHubWrappedAppProps) {
+export function GitHubWrappedApp({ detectedUsername, initialPeriod, initialCompare, initialTrend, team, source = DEFAULT_DATA_SOURCE, instanceUrl, identities, local, cacheMode, host, timeZone, punchCard, initialToken }: GitHubWrappedAppProps) {
   const [appState, setAppState] = useState<AppState>({
     phase: 'username_input',
     detectedUsername
@@ -1525,113 +2138,212 @@ export function GitHubWrappedApp({ detectedUsername }: GitHubWrappedAppProps) {
   boxWidth = Math.max(boxWidth, 80);
   const verticalPadding = Math.max(1, Math.floor((termHeight - boxHeight - 4) / 2));
 
-  // Handle username submission
+  // Handle username submission - skip the year picker when a period was given on the command line
   const handleUsernameSubmit = (username: string) => {
+    if (initialPeriod) {
+      handlePeriodSelect(username, initialPeriod);
+    } else {
+      setAppState({ phase: 'year_select', username });
+    }
+  };
+
+  // Merged identities already name every account, so there is no username to ask for
+  useEffect(() => {
+    if (identities) {
+      handleUsernameSubmit(identities[0].login);
+    }
+  }, []);
+
+  // Handle year (or preset range) selection - skip the comparison prompt when --compare or --trend was given
+  const handlePeriodSelect = (username: string, period: Period) => {
+    if (initialCompare || initialTrend) {
+      handleComparisonChoice(username, period, Boolean(initialCompare), Boolean(initialTrend));
+    } else {
+      setAppState({ phase: 'comparison_prompt', username, period });
+    }
+  };
+
+  // Handle comparison prompt answer
+  const handleComparisonChoice = (username: string, period: Period, compare: boolean, trend: boolean) => {
     setAppState({
       phase: 'fetching_data',
       username,
-      token: process.env.GITHUB_TOKEN,
+      period,
+      compare,
+      trend,
+      token: initialToken?.token,
+      tokenSource: initialToken ? describeToken(initialToken) : undefined,
       message: 'Initializing...'
     });
   };
 
-  // Handle token submission
+  // Fetch with a token entered at the prompt
+  const startFetchWithToken = (state: { username: string; period: Period; compare: boolean; trend: boolean }, token: string) => {
+    setAppState({
+      phase: 'fetching_data',
+      username: state.username,
+      period: state.period,
+      compare: state.compare,
+      trend: state.trend,
+      token,
+      tokenSource: describeToken({ token, source: 'prompt', description: 'prompt' }),
+      message: 'Fetching data...'
+    });
+  };
+
+  // Handle token submission - GitHub tokens get their scopes checked first
   const handleTokenSubmit = (token: string) => {
-    if (appState.phase === 'token_request') {
+    if (appState.phase !== 'token_request') return;
+
+    if (source.startsWith('github')) {
       setAppState({
-        phase: 'fetching_data',
+        phase: 'token_validation',
         username: appState.username,
-        token,
-        message: 'Validating token and fetching data...'
+        period: appState.period,
+        compare: appState.compare,
+        trend: appState.trend,
+        token
       });
+    } else {
+      startFetchWithToken(appState, token);
     }
   };
 
-  // Data fetching effect
+  // Token validation effect: report missing scopes before spending requests on a partial wrap
   useEffect(() => {
-    if (appState.phase !== 'fetching_data') return;
+    if (appState.phase !== 'token_validation') return;
 
     let cancelled = false;
+    const state = appState;
 
-    const fetchData = async () => {
-      try {
-        const client = new GitHubGraphQLClient(appState.username, appState.token);
-        const analyzer = new StatsAnalyzer();
-
-        const selectedYear = new Date().getFullYear();
-        const startDate = new Date(`${selectedYear}-01-01`);
-        const endDate = new Date();
-        const dateRangeStr = `${startDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${endDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
-
-        if (!cancelled) {
+    validateGitHubToken(state.token, host ?? resolveGitHubHost())
+      .then((report) => {
+        if (cancelled) return;
+        if (report.missing.length > 0) {
+          setAppState({ ...state, phase: 'token_scopes', report });
+        } else {
+          startFetchWithToken(state, state.token);
+        }
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        if (err instanceof UnauthorizedError) {
           setAppState({
-            phase: 'fetching_data',
-            username: appState.username,
-            token: appState.token,
-            message: `Fetching GitHub data for ${selectedYear}...`
+            phase: 'token_request',
+            username: state.username,
+            period: state.period,
+            compare: state.compare,
+            trend: state.trend,
+            error: 'Invalid token. Please try again.'
           });
+        } else {
+          // The check is advisory; the fetch reports connection and rate limit problems itself
+          startFetchWithToken(state, state.token);
         }
+      });
 
-        const [user, repos, languageStats, commits, totalPRs, totalIssues, contributions, realLinesChanged, accurateCommitCount] = await Promise.all([
-          client.getUser(),
-          client.getRepositories(),
-          client.getLanguages(),
-          client.getCommitsForYear(selectedYear),
-          client.getPullRequests(selectedYear),
-          client.getIssues(selectedYear),
-          client.getContributionCalendar(selectedYear),
-          client.getTotalLinesChanged(selectedYear),
-          client.getTotalCommitCount(selectedYear)
-        ]);
+    return () => {
+      cancelled = true;
+    };
+  }, [appState.phase]);
 
-        if (!cancelled) {
-          setAppState({
-            phase: 'fetching_data',
-            username: appState.username,
-            token: appState.token,
-            message: 'Generating your wrapped with REAL data...'
-          });
-        }
+  // Data fetching effect
+  useEffect(() => {
+    if (appState.phase !== 'fetching_data') return;
+
+    let cancelled = false;
 
-        const stats = await analyzer.generateWrappedStats(
-          user,
-          commits,
-          repos,
-          languageStats,
-          contributions,
-          totalPRs,
-          totalIssues,
-          realLinesChanged,
-          selectedYear,
-          dateRangeStr,
-          accurateCommitCount
-        );
+    const fetchData = async () => {
+      try {
+        const reportProgress = (message: string) => {
+          if (!cancelled) {
+            setAppState({
+              phase: 'fetching_data',
+              username: appState.username,
+              period: appState.period,
+              compare: appState.compare,
+              trend: appState.trend,
+              token: appState.token,
+              tokenSource: appState.tokenSource,
+              message
+            });
+          }
+        };
+
+        const clientOptions = {
+          host,
+          cache: new DiskCache({ mode: cacheMode }),
+          onProgress: reportProgress
+        };
+        const sourceOptions = {
+          ...clientOptions,
+          token: appState.token,
+          paths: local?.paths,
+          emails: local?.emails,
+          instanceUrl
+        };
+        const client = identities
+          ? createMergedDataSource(identities, clientOptions)
+          : createDataSource(source, appState.username, sourceOptions);
+
+        const stats = await fetchWrappedStats(client, appState.period, reportProgress, timeZone);
+        const comparisonStats = appState.compare
+          ? await fetchComparisonStats(client, stats, reportProgress)
+          : undefined;
+        const trendReport = appState.trend
+          ? await fetchTrendReport(client, reportProgress, timeZone)
+          : undefined;
+        const teamStats = team
+          ? await fetchTeamWrappedStats(
+              (login) => createDataSource(source, login, sourceOptions),
+              (org) => new GitHubOrgClient(org, appState.token, clientOptions),
+              team,
+              appState.period,
+              reportProgress,
+              timeZone
+            )
+          : undefined;
 
         if (!cancelled) {
           setAppState({
             phase: 'stats_display',
             stats,
-            comparisonStats: undefined
+            comparisonStats,
+            trendReport,
+            teamStats,
+            token: appState.token
           });
         }
       } catch (err: unknown) {
         if (cancelled) return;
 
-        // Type-safe error handling
         const errorMessage = err instanceof Error ? err.message : String(err);
+        const askForToken = (error?: string) => setAppState({
+          phase: 'token_request',
+          username: appState.username,
+          period: appState.period,
+          compare: appState.compare,
+          trend: appState.trend,
+          error
+        });
 
-        // Handle errors
-        if (errorMessage.includes('rate limit') || errorMessage.includes('403')) {
+        // The token prompt and username screen only help single GitHub-style wraps;
+        // merged identities and local repositories get the message instead
+        const canPrompt = !identities && !local;
+
+        if (canPrompt && err instanceof UnauthorizedError) {
+          askForToken(err.tokenMissing ? undefined : 'Invalid token. Please try again.');
+        } else if (canPrompt && err instanceof InsufficientScopesError) {
+          const scopes = err.missingScopes.length > 0 ? err.missingScopes.join(', ') : 'the required';
+          askForToken(`That token is missing ${scopes} scope. Please create one with it and try again.`);
+        } else if (canPrompt && err instanceof RateLimitedError && !appState.token) {
+          // Authenticated requests get a much higher limit
+          askForToken(undefined);
+        } else if (canPrompt && !team && err instanceof NotFoundError) {
           setAppState({
-            phase: 'token_request',
-            username: appState.username,
-            error: undefined
-          });
-        } else if (errorMessage.includes('Bad credentials')) {
-          setAppState({
-            phase: 'token_request',
-            username: appState.username,
-            error: 'Invalid token. Please try again.'
+            phase: 'username_input',
+            detectedUsername: null,
+            error: errorMessage
           });
         } else {
           setAppState({
@@ -1647,17 +2359,69 @@ export function GitHubWrappedApp({ detectedUsername }: GitHubWrappedAppProps) {
     return () => {
       cancelled = true;
     };
-  }, [appState.phase, appState.phase === 'fetching_data' ? appState.username : null, appState.phase === 'fetching_data' ? appState.token : null]);
+  }, [appState.phase, appState.phase === 'fetching_data' ? appState.username : null, appState.phase === 'fetching_data' ? appState.period : null, appState.phase === 'fetching_data' ? appState.compare : null, appState.phase === 'fetching_data' ? appState.trend : null, appState.phase === 'fetching_data' ? appState.token : null]);
 
   if (appState.phase === 'username_input') {
     return (
       <UsernameInput
         onSubmit={handleUsernameSubmit}
+        error={appState.error}
         detectedUsername={appState.detectedUsername}
+        periodLabel={initialPeriod ? periodToRange(initialPeriod).label : undefined}
       />
     );
   }
 
+  if (appState.phase === 'year_select') {
+    return (
+      <Box flexDirection="column" alignItems="center" width="100%">
+        <Box
+          flexDirection="column"
+          borderStyle="double"
+          borderColor="green"
+          paddingX={4}
+          paddingY={1}
+          width={boxWidth}
+          height={boxHeight}
+          alignItems="center"
+          marginTop={verticalPadding}
+        >
+          <YearSelect
+            username={appState.username}
+            onSelect={(period) => handlePeriodSelect(appState.username, period)}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (appState.phase === 'comparison_prompt') {
+    const currentRange = periodToRange(appState.period);
+
+    return (
+      <Box flexDirection="column" alignItems="center" width="100%">
+        <Box
+          flexDirection="column"
+          borderStyle="double"
+          borderColor="green"
+          paddingX={4}
+          paddingY={1}
+          width={boxWidth}
+          height={boxHeight}
+          alignItems="center"
+          marginTop={verticalPadding}
+        >
+          <ComparisonPrompt
+            username={appState.username}
+            currentLabel={currentRange.label}
+            previousLabel={previousYearRange(currentRange).label}
+            onChoice={(compare, trend) => handleComparisonChoice(appState.username, appState.period, compare, trend)}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
   if (appState.phase === 'fetching_data') {
     return (
       <Box flexDirection="column" alignItems="center" width="100%">
@@ -1672,7 +2436,7 @@ export function GitHubWrappedApp({ detectedUsername }: GitHubWrappedAppProps) {
           alignItems="center"
           marginTop={verticalPadding}
         >
-          <LoadingScreen message={appState.message} />
+          <LoadingScreen message={appState.message} tokenSource={appState.tokenSource} />
         </Box>
       </Box>
     );
@@ -1696,6 +2460,60 @@ export function GitHubWrappedApp({ detectedUsername }: GitHubWrappedAppProps) {
             onSubmit={handleTokenSubmit}
             onSkip={() => process.exit(0)}
             error={appState.error}
+            host={host}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (appState.phase === 'token_validation') {
+    return (
+      <Box flexDirection="column" alignItems="center" width="100%">
+        <Box
+          flexDirection="column"
+          borderStyle="double"
+          borderColor="green"
+          paddingX={4}
+          paddingY={1}
+          width={boxWidth}
+          height={boxHeight}
+          alignItems="center"
+          marginTop={verticalPadding}
+        >
+          <LoadingScreen message="Checking token scopes..." />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (appState.phase === 'token_scopes') {
+    const state = appState;
+
+    return (
+      <Box flexDirection="column" alignItems="center" width="100%">
+        <Box
+          flexDirection="column"
+          borderStyle="double"
+          borderColor="green"
+          paddingX={4}
+          paddingY={1}
+          width={boxWidth}
+          height={boxHeight}
+          alignItems="center"
+          marginTop={verticalPadding}
+        >
+          <TokenScopeReview
+            report={state.report}
+            onContinue={() => startFetchWithToken(state, state.token)}
+            onReenter={() => setAppState({
+              phase: 'token_request',
+              username: state.username,
+              period: state.period,
+              compare: state.compare,
+              trend: state.trend
+            })}
+            host={host}
           />
         </Box>
       </Box>
@@ -1707,6 +2525,11 @@ export function GitHubWrappedApp({ detectedUsername }: GitHubWrappedAppProps) {
       <StatsDisplay
         stats={appState.stats}
         comparisonStats={appState.comparisonStats}
+        trendReport={appState.trendReport}
+        teamStats={appState.teamStats}
+        host={host}
+        token={appState.token}
+        punchCard={punchCard}
         onExit={() => process.exit(0)}
         onExport={async () => {
           // Export logic moved to StatsDisplay component for better state management
@@ -1743,12 +2566,36 @@ export function GitHubWrappedApp({ detectedUsername }: GitHubWrappedAppProps) {
   return null;
 }
 
+// Block-letter digits in the same style as the slide titles
+const DIGIT_ART: { [digit: string]: string[] } = {
+  '0': [' ██████╗ ', '██╔═████╗', '██║██╔██║', '████╔╝██║', '╚██████╔╝', ' ╚═════╝ '],
+  '1': [' ██╗', '███║', '╚██║', ' ██║', ' ██║', ' ╚═╝'],
+  '2': ['██████╗ ', '╚════██╗', ' █████╔╝', '██╔═══╝ ', '███████╗', '╚══════╝'],
+  '3': ['██████╗ ', '╚════██╗', ' █████╔╝', ' ╚═══██╗', '██████╔╝', '╚═════╝ '],
+  '4': ['██╗  ██╗', '██║  ██║', '███████║', '╚════██║', '     ██║', '     ╚═╝'],
+  '5': ['███████╗', '██╔════╝', '███████╗', '╚════██║', '███████║', '╚══════╝'],
+  '6': [' ██████╗ ', '██╔════╝ ', '███████╗ ', '██╔═══██╗', '╚██████╔╝', ' ╚═════╝ '],
+  '7': ['███████╗', '╚════██║', '    ██╔╝', '   ██╔╝ ', '   ██║  ', '   ╚═╝  '],
+  '8': [' █████╗ ', '██╔══██╗', '╚█████╔╝', '██╔══██╗', '╚█████╔╝', ' ╚════╝ '],
+  '9': [' █████╗ ', '██╔══██╗', '╚██████║', ' ╚═══██║', ' █████╔╝', ' ╚════╝ '],
+};
+
+function renderDigitArt(value: number): string[] {
+  const digits = String(value).split('');
+  return DIGIT_ART['0'].map((_, row) => digits.map((d) => DIGIT_ART[d][row]).join(''));
+}
+
 function formatHour(hour: number): string {
   const period = hour >= 12 ? 'PM' : 'AM';
   const displayHour = hour % 12 || 12;
   return `${displayHour}:00 ${period}`;
 }
 
+// Helper function to format a YYYY-MM-DD date as e.g. "Mar 3"
+function formatDay(date: string): string {
+  return `${MONTH_LABELS[Number(date.slice(5, 7)) - 1]} ${Number(date.slice(8, 10))}`;
+}
+
 // Helper function to format numbers with commas
 function formatNumber(num: number): string {
   return num.toLocaleString('en-US');
@@ -1,11 +1,18 @@
 /**
  * Fetch GitHub avatar and convert to base64 data URI
  * Handles CORS and network errors with 5-second timeout
+ * @param token - Sent only when set, for GitHub Enterprise hosts in private mode
  */
 export async function fetchAvatarAsBase64(
-  avatarUrl: string,
-  onWarn?: (msg: string) => void
+  avatarUrl: string | null,
+  onWarn?: (msg: string) => void,
+  token?: string
 ): Promise<string> {
+  // Local git wraps have no avatar to fetch
+  if (!avatarUrl) {
+    return '';
+  }
+
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 5000);
 
@@ -13,7 +20,8 @@ export async function fetchAvatarAsBase64(
     const response = await fetch(avatarUrl, {
       signal: controller.signal,
       headers: {
-        'User-Agent': 'github-wrapped-cli'
+        'User-Agent': 'github-wrapped-cli',
+        ...(token ? { Authorization: `token ${token}` } : {})
       }
     });
 
@@ -0,0 +1,197 @@
+import type { DateRange, Period } from '../types.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// GitHub's contributionsCollection rejects windows longer than one year
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * Format a Date as a YYYY-MM-DD calendar date (UTC)
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Calendar year, ending today while the year is still running
+ */
+export function yearRange(year: number): DateRange {
+  return clampToToday({ from: `${year}-01-01`, to: `${year}-12-31`, label: String(year) });
+}
+
+/**
+ * Calendar quarter (1-4) of a year
+ */
+export function quarterRange(year: number, quarter: number): DateRange {
+  if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+    throw new Error(`Invalid quarter "${quarter}". Expected 1-4.`);
+  }
+
+  const startMonth = (quarter - 1) * 3;
+  return clampToToday({
+    from: toIsoDate(new Date(Date.UTC(year, startMonth, 1))),
+    to: toIsoDate(new Date(Date.UTC(year, startMonth + 3, 0))),
+    label: `Q${quarter} ${year}`,
+  });
+}
+
+/**
+ * Fiscal year that starts on the first day of `startMonth` (1-12) in `year`,
+ * e.g. fiscalYearRange(2025, 4) is Apr 1, 2025 - Mar 31, 2026
+ */
+export function fiscalYearRange(year: number, startMonth: number = 4): DateRange {
+  if (!Number.isInteger(startMonth) || startMonth < 1 || startMonth > 12) {
+    throw new Error(`Invalid fiscal year start month "${startMonth}". Expected 1-12.`);
+  }
+
+  return clampToToday({
+    from: toIsoDate(new Date(Date.UTC(year, startMonth - 1, 1))),
+    to: toIsoDate(new Date(Date.UTC(year + 1, startMonth - 1, 0))),
+    label: `FY${year}`,
+  });
+}
+
+/**
+ * Rolling window of the last `days` days, including today
+ */
+export function lastDaysRange(days: number, today: Date = new Date()): DateRange {
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`Invalid number of days "${days}". Expected a positive whole number.`);
+  }
+
+  return {
+    from: toIsoDate(new Date(today.getTime() - (days - 1) * DAY_MS)),
+    to: toIsoDate(today),
+    label: `Last ${days} days`,
+  };
+}
+
+/**
+ * Arbitrary inclusive window between two YYYY-MM-DD dates
+ */
+export function customRange(from: string, to: string): DateRange {
+  for (const date of [from, to]) {
+    if (!isCalendarDate(date)) {
+      throw new Error(`Invalid date "${date}". Expected YYYY-MM-DD.`);
+    }
+  }
+
+  const range = clampToToday({ from, to, label: '' });
+  return { ...range, label: formatDateRange(range) };
+}
+
+/**
+ * Parse a quarter like "2025-Q2", "2025Q2" or "Q2-2025"
+ */
+export function parseQuarter(value: string): DateRange {
+  const match = value.trim().toUpperCase().match(/^(?:(\d{4})-?Q([1-4])|Q([1-4])-?(\d{4}))$/);
+  if (!match) {
+    throw new Error(`Invalid quarter "${value}". Expected a value like 2025-Q2.`);
+  }
+
+  const year = Number(match[1] || match[4]);
+  const quarter = Number(match[2] || match[3]);
+  return quarterRange(year, quarter);
+}
+
+/**
+ * Normalize a year or a range into a range
+ */
+export function periodToRange(period: Period): DateRange {
+  return typeof period === 'number' ? yearRange(period) : period;
+}
+
+/**
+ * The same window one year earlier, e.g. Q2 2025 -> Q2 2024
+ */
+export function previousYearRange(range: DateRange): DateRange {
+  const shift = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    // Feb 29 becomes Feb 28 when the earlier year is not a leap year
+    const lastDay = new Date(Date.UTC(year - 1, month, 0)).getUTCDate();
+    return toIsoDate(new Date(Date.UTC(year - 1, month - 1, Math.min(day, lastDay))));
+  };
+
+  const previous = { from: shift(range.from), to: shift(range.to), label: '' };
+  const label = /\d{4}/.test(range.label)
+    ? range.label.replace(/\d{4}/g, (year) => String(Number(year) - 1))
+    : formatDateRange(previous);
+
+  return { ...previous, label };
+}
+
+/**
+ * Check a range can be queried: ordered, not in the future and at most a year long
+ */
+export function validateRange(range: DateRange): void {
+  const today = toIsoDate(new Date());
+
+  if (range.from > range.to) {
+    throw new Error(`Invalid date range: ${range.from} is after ${range.to}.`);
+  }
+
+  if (range.from > today) {
+    throw new Error(`${range.label} is in the future. Please pick a period that starts on or before ${today}.`);
+  }
+
+  if (countDays(range) > MAX_RANGE_DAYS) {
+    throw new Error(`${range.label} spans ${countDays(range)} days. GitHub only allows up to one year per wrap.`);
+  }
+}
+
+/**
+ * Number of calendar days in a range, inclusive of both ends
+ */
+export function countDays(range: DateRange): number {
+  return Math.round((Date.parse(range.to) - Date.parse(range.from)) / DAY_MS) + 1;
+}
+
+/**
+ * Whether a YYYY-MM-DD date falls inside a range
+ */
+export function isWithinRange(date: string, range: DateRange): boolean {
+  const day = date.split('T')[0];
+  return day >= range.from && day <= range.to;
+}
+
+/**
+ * ISO timestamps for the GraphQL `from`/`to` arguments, never later than now
+ */
+export function rangeToDateTimes(range: DateRange): { from: string; to: string } {
+  const end = Math.min(Date.parse(`${range.to}T23:59:59Z`), Date.now());
+  return {
+    from: `${range.from}T00:00:00Z`,
+    to: new Date(end).toISOString(),
+  };
+}
+
+/**
+ * Human-readable range, e.g. "Jan 1 - Dec 31, 2024" or "Apr 1, 2025 - Mar 31, 2026"
+ */
+export function formatDateRange(range: DateRange): string {
+  const start = new Date(`${range.from}T00:00:00Z`);
+  const end = new Date(`${range.to}T00:00:00Z`);
+  const sameYear = start.getUTCFullYear() === end.getUTCFullYear();
+
+  const startStr = start.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+    timeZone: 'UTC',
+  });
+  const endStr = end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+  return `${startStr} - ${endStr}`;
+}
+
+// Date.parse accepts days a month does not have (2025-02-30 becomes March 2), so check the round trip
+function isCalendarDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && toIsoDate(parsed) === date;
+}
+
+function clampToToday(range: DateRange): DateRange {
+  const today = toIsoDate(new Date());
+  return range.to > today && range.from <= today ? { ...range, to: today } : range;
+}
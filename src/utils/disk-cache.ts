@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { homedir } from 'os';
+import { join, dirname } from 'path';
+
+/**
+ * How the cache is used for a run:
+ * - default: serve fresh entries, fetch and store everything else
+ * - refresh: ignore existing entries, fetch and store
+ * - offline: never touch the network, serve entries regardless of age
+ */
+export type CacheMode = 'default' | 'refresh' | 'offline';
+
+export const DEFAULT_CACHE_TTL_MS = 1000 * 60 * 60 * 12; // 12 hours
+
+// Bump when the shape of stored entries changes so old files are ignored
+const CACHE_FORMAT_VERSION = 1;
+
+interface CacheEntry<T> {
+  version: number;
+  storedAt: string;
+  data: T;
+}
+
+export interface DiskCacheOptions {
+  mode?: CacheMode;
+  ttlMs?: number;
+  dir?: string;
+}
+
+/**
+ * Default cache directory: $XDG_CACHE_HOME/gh-wrapped, falling back to the
+ * platform's usual cache location
+ */
+export function getCacheDir(): string {
+  if (process.env.XDG_CACHE_HOME) {
+    return join(process.env.XDG_CACHE_HOME, 'gh-wrapped');
+  }
+  if (process.platform === 'win32' && process.env.LOCALAPPDATA) {
+    return join(process.env.LOCALAPPDATA, 'gh-wrapped', 'Cache');
+  }
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Caches', 'gh-wrapped');
+  }
+  return join(homedir(), '.cache', 'gh-wrapped');
+}
+
+/**
+ * JSON file cache for API responses, one file per host, username, period, query and token.
+ * Entries can hold private data, so files are only readable by the current user.
+ */
+export class DiskCache {
+  readonly mode: CacheMode;
+  private ttlMs: number;
+  private dir: string;
+
+  constructor(options: DiskCacheOptions = {}) {
+    this.mode = options.mode || 'default';
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.dir = options.dir || getCacheDir();
+  }
+
+  /**
+   * Build a cache key; the query text is hashed so editing a query invalidates its entries.
+   * The token is part of the key (as a hash) so data fetched with one is never served to a run without it.
+   */
+  key(hostname: string, username: string, period: string, query: string, token?: string): string {
+    const queryHash = createHash('sha256').update(query).digest('hex').slice(0, 16);
+    const auth = token ? createHash('sha256').update(token).digest('hex').slice(0, 16) : 'anonymous';
+    return join(sanitize(hostname), sanitize(username.toLowerCase()), `${sanitize(period)}-${queryHash}-${auth}`);
+  }
+
+  /**
+   * Read an entry, or undefined when missing, expired or unreadable.
+   * Expired entries are still served in offline mode.
+   */
+  async read<T>(key: string): Promise<T | undefined> {
+    if (this.mode === 'refresh') {
+      return undefined;
+    }
+
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await fs.readFile(this.pathFor(key), 'utf-8'));
+      if (entry.version !== CACHE_FORMAT_VERSION) {
+        return undefined;
+      }
+
+      const age = Date.now() - Date.parse(entry.storedAt);
+      if (this.mode !== 'offline' && !(age < this.ttlMs)) {
+        return undefined;
+      }
+
+      return entry.data;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an entry. Failures (read-only home, full disk) are ignored - the cache is best effort.
+   */
+  async write<T>(key: string, data: T): Promise<void> {
+    const entry: CacheEntry<T> = {
+      version: CACHE_FORMAT_VERSION,
+      storedAt: new Date().toISOString(),
+      data,
+    };
+
+    try {
+      const path = this.pathFor(key);
+      await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+      await fs.writeFile(path, JSON.stringify(entry), { encoding: 'utf-8', mode: 0o600 });
+    } catch {
+      // Ignore - the next run simply fetches again
+    }
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
+
+function sanitize(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
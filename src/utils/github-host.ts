@@ -0,0 +1,82 @@
+export const DEFAULT_GITHUB_HOSTNAME = 'github.com';
+
+// Letters, digits, dots and dashes, optionally with a port - the host ends up in child process arguments
+const PLAIN_HOST = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d{1,5})?$/;
+
+/**
+ * Where a GitHub instance lives: github.com or a GitHub Enterprise Server
+ */
+export interface GitHubHost {
+  hostname: string;
+  webUrl: string; // e.g. https://github.example.com
+  apiUrl: string; // REST base URL, also accepted by @octokit/graphql as baseUrl
+  isEnterprise: boolean;
+}
+
+/**
+ * Resolve a hostname (or URL) into API and web base URLs.
+ * "github.com" maps to api.github.com; anything else is treated as GitHub Enterprise Server,
+ * which serves REST under /api/v3 and GraphQL under /api/graphql.
+ */
+export function resolveGitHubHost(host: string = DEFAULT_GITHUB_HOSTNAME): GitHubHost {
+  const trimmed = host.trim().replace(/\/+$/, '');
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new Error(`Invalid GitHub host "${host}". Expected a hostname like github.example.com.`);
+  }
+
+  const hostname = url.host.toLowerCase();
+  const hasExtras = url.username || url.password || url.search || url.hash || (url.pathname !== '/' && url.pathname !== '');
+  if (!PLAIN_HOST.test(hostname) || hasExtras) {
+    throw new Error(`Invalid GitHub host "${host}". Expected a hostname like github.example.com.`);
+  }
+
+  if (hostname === DEFAULT_GITHUB_HOSTNAME || hostname === 'api.github.com') {
+    return {
+      hostname: DEFAULT_GITHUB_HOSTNAME,
+      webUrl: 'https://github.com',
+      apiUrl: 'https://api.github.com',
+      isEnterprise: false,
+    };
+  }
+
+  const webUrl = `${url.protocol}//${hostname}`;
+  return {
+    hostname,
+    webUrl,
+    apiUrl: `${webUrl}/api/v3`,
+    isEnterprise: true,
+  };
+}
+
+/**
+ * Personal access token settings page on the host
+ */
+export function tokenSettingsUrl(host: GitHubHost): string {
+  return `${host.webUrl}/settings/tokens`;
+}
+
+/**
+ * Pre-filled "new token" page on the host
+ */
+export function newTokenUrl(host: GitHubHost, scopes: string[] = ['read:user']): string {
+  return `${host.webUrl}/settings/tokens/new?description=GitHub%20Wrapped&scopes=${scopes.join(',')}`;
+}
+
+/**
+ * Whether a URL is served by the host itself (or its subdomains, e.g. avatars.<host>),
+ * so it is safe to send the host's token along
+ */
+export function isHostUrl(host: GitHubHost, url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    const base = host.hostname.split(':')[0];
+    return hostname === base || hostname.endsWith(`.${base}`);
+  } catch {
+    return false;
+  }
+}
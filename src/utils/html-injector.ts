@@ -7,8 +7,17 @@ export interface TemplateData {
   randomId: number;
   avatarBase64: string;
   tier: 'origin' | 'prime' | 'master';
+  year: number;
+  punchCard?: number[][]; // Commits per weekday and hour, drawn under the archetype when given
 }
 
+// Border colour of each tier's archetype box, reused for the punch card cells
+const TIER_ACCENTS: Record<TemplateData['tier'], string> = {
+  origin: '#32ff7a',
+  prime: '#47D9FF',
+  master: '#FFC94D',
+};
+
 /**
  * Inject user data into HTML template
  * Uses simple string replacement for placeholders
@@ -21,6 +30,9 @@ export function injectDataIntoTemplate(
 
   result = result.replace(/@testuser/g, `@${data.username}`);
 
+  result = result.replace(/(GitHub Wrapped|GITHUB WRAPPED) \d{4}/g, `$1 ${data.year}`);
+  result = result.replace(/\d{4} EDITION/g, `${data.year} EDITION`);
+
   const statsRegex = /<div class="stat-number">(\d+)<\/div>/g;
   const statsValues = [data.prs, data.commits, data.repos];
   let statIndex = 0;
@@ -37,6 +49,94 @@ export function injectDataIntoTemplate(
 
   result = result.replace(/#\d+/, `#${data.randomId}`);
 
+  if (data.punchCard) {
+    result = result.replace(
+      /(<div class="badges-container">)/,
+      `${renderPunchCard(data.punchCard, TIER_ACCENTS[data.tier])}$1`
+    );
+  }
+
+  if (data.avatarBase64) {
+    result = result.replace(
+      /(<div class="pixelated-avatar">)/,
+      `<div class="pixelated-avatar" style="background-image: url('${data.avatarBase64}'); background-size: cover; background-position: center; image-rendering: pixelated;">`
+    );
+  }
+
+  // Force body background for headless Chrome
+  result = result.replace(
+    /<body>/,
+    '<body style="background: #050607 !important;">'
+  );
+
+  return result;
+}
+
+export interface OrgTemplateData {
+  orgLogin: string;
+  commits: number;
+  prs: number;
+  contributors: number;
+  topContributors: Array<{ name: string; value: number }>;
+  busiestRepos: Array<{ name: string; value: number }>;
+  languages: Array<{ name: string; percentage: number; color: string }>;
+  newRepos: number;
+  avatarBase64: string;
+  year: number;
+}
+
+/**
+ * Inject organization data into the org card template
+ */
+export function injectOrgDataIntoTemplate(
+  htmlContent: string,
+  data: OrgTemplateData
+): string {
+  let result = htmlContent;
+
+  result = result.replace(/@testorg/g, `@${escapeHtml(data.orgLogin)}`);
+
+  result = result.replace(/(GitHub Wrapped|GITHUB WRAPPED) \d{4}/g, `$1 ${data.year}`);
+  result = result.replace(/\d{4} EDITION/g, `${data.year} EDITION`);
+
+  const statsValues = [data.commits, data.prs, data.contributors];
+  let statIndex = 0;
+  result = result.replace(/<div class="stat-number">(\d+)<\/div>/g, () => {
+    const value = statsValues[statIndex++] || 0;
+    return `<div class="stat-number">${value}</div>`;
+  });
+
+  const leaderboardRows = (rows: Array<{ name: string; value: number }>) =>
+    rows.length > 0
+      ? rows
+          .map((row, i) => `<li><span class="rank">${i + 1}</span><span class="name">${escapeHtml(row.name)}</span><span>${row.value}</span></li>`)
+          .join('')
+      : '<li><span class="name">No activity</span></li>';
+
+  result = result.replace(
+    /(<ol class="leaderboard contributors">)[\s\S]*?(<\/ol>)/,
+    `$1${leaderboardRows(data.topContributors)}$2`
+  );
+  result = result.replace(
+    /(<ol class="leaderboard repos">)[\s\S]*?(<\/ol>)/,
+    `$1${leaderboardRows(data.busiestRepos)}$2`
+  );
+
+  result = result.replace(
+    /(<div class="language-bar">)[\s\S]*?(<\/div>\s*<div class="language-legend">)[^<]*(<\/div>)/,
+    `$1${data.languages
+      .map((lang) => `<div style="width: ${lang.percentage.toFixed(1)}%; background: ${escapeHtml(lang.color)};"></div>`)
+      .join('')}$2${data.languages
+      .slice(0, 3)
+      .map((lang) => `${escapeHtml(lang.name.toUpperCase())} ${Math.round(lang.percentage)}%`)
+      .join(' · ')}$3`
+  );
+
+  result = result.replace(
+    /<div class="new-repos">[^<]*<\/div>/,
+    `<div class="new-repos">${data.newRepos} NEW ${data.newRepos === 1 ? 'REPO' : 'REPOS'}</div>`
+  );
+
   if (data.avatarBase64) {
     result = result.replace(
       /(<div class="pixelated-avatar">)/,
@@ -52,3 +152,35 @@ export function injectDataIntoTemplate(
 
   return result;
 }
+
+/**
+ * 7x24 grid of squares, opacity scaled to the busiest hour
+ */
+function renderPunchCard(matrix: number[][], accent: string): string {
+  const max = Math.max(...matrix.flat(), 1);
+  const days = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+  const rows = matrix
+    .map((hours, day) => {
+      const cells = hours
+        .map((count) => {
+          const opacity = count === 0 ? 0.08 : 0.25 + (count / max) * 0.75;
+          return `<span style="width: 10px; height: 10px; border-radius: 2px; background: ${accent}; opacity: ${opacity.toFixed(2)};"></span>`;
+        })
+        .join('');
+      return `<div style="display: flex; gap: 2px; align-items: center;"><span style="width: 12px; font-size: 9px; color: ${accent};">${days[day]}</span>${cells}</div>`;
+    })
+    .join('');
+
+  return `<div class="punch-card" style="display: flex; flex-direction: column; gap: 2px; margin-bottom: 14px; align-self: center;">${rows}</div>`;
+}
+
+// Commit author names and repository names come straight from the API
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
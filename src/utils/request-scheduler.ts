@@ -0,0 +1,228 @@
+/**
+ * Shared HTTP layer for every API client: limits concurrent requests, tracks rate limits
+ * from response headers and GraphQL `rateLimit` fields, waits for resets instead of failing,
+ * and retries secondary rate limits and server errors with exponential backoff.
+ */
+
+/**
+ * Selection to add to GraphQL queries so the scheduler sees their cost
+ */
+export const GRAPHQL_RATE_LIMIT_FIELDS = 'rateLimit { cost remaining resetAt }';
+
+export interface RequestSchedulerOptions {
+  concurrency?: number; // Requests in flight at once (default: 4)
+  maxRetries?: number; // Retries for rate-limited and 5xx responses (default: 3)
+  maxWaitMs?: number; // Longest wait for a reset before giving up and returning the error response (default: 5 minutes)
+}
+
+type FetchFunction = typeof fetch;
+
+// What the last response told us about one rate limit bucket
+interface RateLimitState {
+  remaining: number;
+  resetAt: number; // epoch ms
+  cost: number; // Points the last GraphQL query cost, 1 for REST
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_WAIT_MS = 5 * 60 * 1000;
+
+// GitHub asks for at least a minute between retries of a secondary rate limit without Retry-After
+const SECONDARY_LIMIT_BACKOFF_MS = 60 * 1000;
+const SERVER_ERROR_BACKOFF_MS = 1000;
+const COUNTDOWN_INTERVAL_MS = 5000;
+
+const RETRYABLE_SERVER_ERRORS = [500, 502, 503, 504];
+
+export class RequestScheduler {
+  private concurrency: number;
+  private maxRetries: number;
+  private maxWaitMs: number;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private limits: Map<string, RateLimitState> = new Map();
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+  }
+
+  /**
+   * Run a task once a concurrency slot is free
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.concurrency) {
+      // The finishing task hands its slot over directly
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  /**
+   * A drop-in `fetch` for API clients (Octokit accepts it as `request.fetch`).
+   * Waits and retries are reported through `onProgress`, e.g. "Waiting for rate limit reset in 42s...".
+   * When retries run out, or a reset is further away than `maxWaitMs`, the last response is
+   * returned unchanged so the client's own error handling still applies.
+   */
+  createFetch(onProgress?: (message: string) => void): FetchFunction {
+    const scheduledFetch = (input: Parameters<FetchFunction>[0], init?: Parameters<FetchFunction>[1]) =>
+      this.schedule(async () => {
+        const bucket = bucketFor(input);
+
+        for (let attempt = 0; ; attempt++) {
+          await this.waitForBucket(bucket, onProgress);
+
+          const response = await fetch(input, init);
+          const rateLimited = await this.observe(bucket, response);
+
+          if (attempt >= this.maxRetries) return response;
+
+          const delay = await this.retryDelay(bucket, response, rateLimited, attempt);
+          if (delay === undefined || delay > this.maxWaitMs) return response;
+
+          // Free the connection before waiting
+          await response.body?.cancel().catch(() => undefined);
+
+          const reason = response.status >= 500 ? `Server error (${response.status})` : 'Rate limited';
+          await this.countdown(delay, onProgress, (seconds) =>
+            rateLimited === 'primary'
+              ? `Waiting for rate limit reset in ${seconds}s...`
+              : `${reason}, retrying in ${seconds}s (${attempt + 1}/${this.maxRetries})...`
+          );
+        }
+      });
+
+    return scheduledFetch as FetchFunction;
+  }
+
+  /**
+   * Hold a request while its bucket is known to be exhausted
+   */
+  private async waitForBucket(bucket: string, onProgress?: (message: string) => void): Promise<void> {
+    const state = this.limits.get(bucket);
+    if (!state || state.remaining >= state.cost) return;
+
+    const delay = state.resetAt - Date.now();
+    if (delay <= 0 || delay > this.maxWaitMs) return;
+
+    await this.countdown(delay, onProgress, (seconds) => `Waiting for rate limit reset in ${seconds}s...`);
+    this.limits.delete(bucket);
+  }
+
+  /**
+   * Record rate limit headers (GitHub's X-RateLimit-*, GitLab's RateLimit-*) and GraphQL `rateLimit` fields
+   * @returns 'primary' when the bucket is exhausted, 'secondary' for GitHub's abuse limits or GraphQL RATE_LIMITED errors
+   */
+  private async observe(bucket: string, response: Response): Promise<'primary' | 'secondary' | undefined> {
+    const headers = response.headers;
+    const remaining = headers.get('x-ratelimit-remaining') ?? headers.get('ratelimit-remaining');
+    const reset = headers.get('x-ratelimit-reset') ?? headers.get('ratelimit-reset');
+    const previous = this.limits.get(bucket);
+
+    if (remaining !== null && reset !== null) {
+      this.limits.set(bucket, {
+        remaining: Number(remaining),
+        resetAt: Number(reset) * 1000,
+        cost: previous?.cost ?? 1,
+      });
+    }
+
+    let graphqlRateLimited = false;
+    if (bucket.endsWith(' graphql') && response.ok) {
+      const body = await response.clone().json().catch(() => undefined) as GraphQLRateLimitBody | undefined;
+      const rateLimit = body?.data?.rateLimit;
+      if (rateLimit) {
+        this.limits.set(bucket, {
+          remaining: rateLimit.remaining,
+          resetAt: Date.parse(rateLimit.resetAt),
+          cost: Math.max(rateLimit.cost, 1),
+        });
+      }
+      graphqlRateLimited = Boolean(body?.errors?.some((error) => error.type === 'RATE_LIMITED'));
+    }
+
+    if (response.status === 403 || response.status === 429 || graphqlRateLimited) {
+      if (remaining === '0') return 'primary';
+      if (response.status === 429 || graphqlRateLimited || headers.has('retry-after')) return 'secondary';
+
+      // A 403 without rate limit headers is a permission problem, unless the message says otherwise
+      const message = await response.clone().text().catch(() => '');
+      if (/secondary rate limit|abuse/i.test(message)) return 'secondary';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * How long to wait before retrying, or undefined when the response should not be retried
+   */
+  private async retryDelay(bucket: string, response: Response, rateLimited: 'primary' | 'secondary' | undefined, attempt: number): Promise<number | undefined> {
+    if (rateLimited) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      if (retryAfter > 0) return retryAfter * 1000;
+
+      const resetAt = this.limits.get(bucket)?.resetAt;
+      if (rateLimited === 'primary' && resetAt) return Math.max(resetAt - Date.now(), 0) + 1000;
+
+      return SECONDARY_LIMIT_BACKOFF_MS * 2 ** attempt;
+    }
+
+    if (RETRYABLE_SERVER_ERRORS.includes(response.status)) {
+      return SERVER_ERROR_BACKOFF_MS * 2 ** attempt + Math.random() * SERVER_ERROR_BACKOFF_MS;
+    }
+
+    return undefined;
+  }
+
+  private async countdown(delay: number, onProgress: ((message: string) => void) | undefined, message: (seconds: number) => string): Promise<void> {
+    const end = Date.now() + delay;
+
+    while (Date.now() < end) {
+      const left = end - Date.now();
+      onProgress?.(message(Math.ceil(left / 1000)));
+      await new Promise((resolve) => setTimeout(resolve, Math.min(left, COUNTDOWN_INTERVAL_MS)));
+    }
+  }
+}
+
+interface GraphQLRateLimitBody {
+  data?: { rateLimit?: { cost: number; remaining: number; resetAt: string } | null };
+  errors?: Array<{ type?: string }>;
+}
+
+/**
+ * Rate limit bucket of a request: GitHub limits GraphQL, search and everything else separately
+ */
+function bucketFor(input: Parameters<FetchFunction>[0]): string {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+  const resource = url.pathname.endsWith('/graphql') ? 'graphql' : url.pathname.includes('/search/') ? 'search' : 'core';
+  return `${url.host} ${resource}`;
+}
+
+// Singleton instance
+let schedulerInstance: RequestScheduler | null = null;
+
+/**
+ * Get the scheduler shared by every client in this process, so concurrency and
+ * rate limits are tracked across users, team members and identities
+ */
+export function getRequestScheduler(): RequestScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new RequestScheduler();
+  }
+  return schedulerInstance;
+}
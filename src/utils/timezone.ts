@@ -0,0 +1,57 @@
+/**
+ * Zone of the machine running the app (honours the TZ environment variable)
+ */
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Validate an IANA time zone name such as "Asia/Tokyo", falling back to the system zone
+ * @throws Error when the zone is unknown
+ */
+export function resolveTimeZone(timeZone?: string): string {
+  if (!timeZone) return systemTimeZone();
+
+  try {
+    // Canonical spelling, e.g. "asia/tokyo" -> "Asia/Tokyo"
+    return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(`Invalid time zone "${timeZone}". Expected an IANA name like Europe/Berlin or America/New_York.`);
+  }
+}
+
+// Formatters are comparatively expensive to build and commits number in the thousands
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Day of week (0 = Sunday) and hour (0-23) of a timestamp on the wall clock of `timeZone`
+ */
+export function wallClockInTimeZone(timestamp: string | Date, timeZone: string): { weekday: number; hour: number } {
+  let formatter = wallClockFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+    wallClockFormatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(timestamp));
+  const weekday = parts.find((part) => part.type === 'weekday')?.value ?? 'Sun';
+  const hour = parts.find((part) => part.type === 'hour')?.value ?? '0';
+  return { weekday: Math.max(WEEKDAYS.indexOf(weekday), 0), hour: Number(hour) % 24 };
+}
+
+/**
+ * Hour of day (0-23) of a timestamp on the wall clock of `timeZone`
+ */
+export function hourInTimeZone(timestamp: string | Date, timeZone: string): number {
+  return wallClockInTimeZone(timestamp, timeZone).hour;
+}
+
+/**
+ * Day of week (0 = Sunday) of a YYYY-MM-DD calendar date. The date already names a day,
+ * so it is read as-is rather than as midnight UTC converted to the local zone.
+ */
+export function weekdayOfDate(date: string): number {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+}
@@ -0,0 +1,158 @@
+import { execFileSync, execSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { GitHubHost } from './github-host.js';
+
+export type TokenSource = 'env' | 'gh-cli' | 'git-credential' | 'prompt';
+
+export interface DiscoveredToken {
+  token: string;
+  source: TokenSource;
+  description: string; // e.g. "gh CLI" or "GITHUB_TOKEN"
+}
+
+/**
+ * Find a token without prompting, in order of precedence:
+ * 1. The --token-env variable, when given (no fallback, it was asked for explicitly)
+ * 2. GH_TOKEN / GITHUB_TOKEN (GH_ENTERPRISE_TOKEN / GITHUB_ENTERPRISE_TOKEN for Enterprise hosts)
+ * 3. The gh CLI's hosts config, or its keyring via `gh auth token`
+ * 4. `git credential fill` for the host
+ * @returns null when nothing was found and the user has to be asked
+ */
+export function discoverToken(host: GitHubHost, tokenEnv?: string): DiscoveredToken | null {
+  if (tokenEnv) {
+    const token = process.env[tokenEnv]?.trim();
+    return token ? { token, source: 'env', description: tokenEnv } : null;
+  }
+
+  const envNames = host.isEnterprise
+    ? ['GH_ENTERPRISE_TOKEN', 'GITHUB_ENTERPRISE_TOKEN']
+    : ['GH_TOKEN', 'GITHUB_TOKEN'];
+  for (const name of envNames) {
+    const token = process.env[name]?.trim();
+    if (token) return { token, source: 'env', description: name };
+  }
+
+  const ghToken = readGhCliToken(host.hostname);
+  if (ghToken) return { token: ghToken, source: 'gh-cli', description: 'gh CLI' };
+
+  const gitToken = readGitCredential(host.hostname);
+  if (gitToken) return { token: gitToken, source: 'git-credential', description: 'git credential helper' };
+
+  return null;
+}
+
+/**
+ * Find a GitLab token: the --token-env variable when given, otherwise GITLAB_TOKEN or GL_TOKEN
+ */
+export function discoverGitLabToken(tokenEnv?: string): DiscoveredToken | null {
+  for (const name of tokenEnv ? [tokenEnv] : ['GITLAB_TOKEN', 'GL_TOKEN']) {
+    const token = process.env[name]?.trim();
+    if (token) return { token, source: 'env', description: name };
+  }
+
+  return null;
+}
+
+/**
+ * Find a Gitea or Forgejo token: the --token-env variable when given, otherwise GITEA_TOKEN or FORGEJO_TOKEN
+ */
+export function discoverGiteaToken(tokenEnv?: string): DiscoveredToken | null {
+  for (const name of tokenEnv ? [tokenEnv] : ['GITEA_TOKEN', 'FORGEJO_TOKEN']) {
+    const token = process.env[name]?.trim();
+    if (token) return { token, source: 'env', description: name };
+  }
+
+  return null;
+}
+
+/**
+ * Token lookup for a data source id: none for local git, GitLab's and Gitea's variables
+ * for those sources, the GitHub discovery chain for everything else
+ */
+export function discoverSourceToken(source: string, host: GitHubHost, tokenEnv?: string): DiscoveredToken | null {
+  if (source === 'local') return null;
+  if (source === 'gitlab') return discoverGitLabToken(tokenEnv);
+  if (source === 'gitea') return discoverGiteaToken(tokenEnv);
+  return discoverToken(host, tokenEnv);
+}
+
+/**
+ * Short human-readable note for the UI, e.g. "Using token from gh CLI"
+ */
+export function describeToken(token: DiscoveredToken): string {
+  return token.source === 'prompt' ? 'Using the token you entered' : `Using token from ${token.description}`;
+}
+
+// Helper: Read the gh CLI token, from hosts.yml or (for keyring-based installs) `gh auth token`
+function readGhCliToken(hostname: string): string | null {
+  const hostsFile = join(getGhConfigDir(), 'hosts.yml');
+
+  try {
+    if (existsSync(hostsFile)) {
+      const token = parseHostsToken(readFileSync(hostsFile, 'utf-8'), hostname);
+      if (token) return token;
+    }
+  } catch {}
+
+  try {
+    // No shell: the hostname comes from --host, GH_HOST or --identity
+    const token = execFileSync('gh', ['auth', 'token', '--hostname', hostname], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 5000,
+    }).trim();
+    if (token) return token;
+  } catch {}
+
+  return null;
+}
+
+// Helper: Ask git's credential helpers for the host, without ever prompting
+function readGitCredential(hostname: string): string | null {
+  try {
+    const output = execSync('git credential fill', {
+      encoding: 'utf-8',
+      input: `protocol=https\nhost=${hostname}\n\n`,
+      stdio: ['pipe', 'pipe', 'ignore'],
+      timeout: 5000,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GCM_INTERACTIVE: 'never' },
+    });
+    const match = output.match(/^password=(.+)$/m);
+    if (match) return match[1].trim();
+  } catch {}
+
+  return null;
+}
+
+function getGhConfigDir(): string {
+  if (process.env.GH_CONFIG_DIR) return process.env.GH_CONFIG_DIR;
+  if (process.env.XDG_CONFIG_HOME) return join(process.env.XDG_CONFIG_HOME, 'gh');
+  if (process.platform === 'win32' && process.env.APPDATA) return join(process.env.APPDATA, 'GitHub CLI');
+  return join(homedir(), '.config', 'gh');
+}
+
+/**
+ * Pull `oauth_token` out of the host's block in gh's hosts.yml.
+ * The file is a flat two-level map, so a line scanner is enough and avoids a YAML dependency.
+ */
+export function parseHostsToken(content: string, hostname: string): string | null {
+  let inHost = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    if (!/^\s/.test(line)) {
+      inHost = line.replace(/:\s*$/, '').replace(/^["']|["']$/g, '').toLowerCase() === hostname;
+      continue;
+    }
+
+    const match = line.match(/^\s+oauth_token:\s*["']?([^"'\s]+)["']?\s*$/);
+    if (inHost && match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import type { TokenScopeReport } from '../types.js';
+import type { GitHubHost } from './github-host.js';
+import { getRequestScheduler } from './request-scheduler.js';
+import { toGitHubError } from '../errors.js';
+
+// Scopes the wrap benefits from, and what is lost without them. Broader scopes imply the narrower ones.
+const WANTED_SCOPES: Array<{ scope: string; impliedBy: string[]; reason: string }> = [
+  { scope: 'read:user', impliedBy: ['user'], reason: 'profile details and your contribution calendar' },
+  { scope: 'repo', impliedBy: [], reason: 'commits, pull requests and languages from private repositories' },
+];
+
+/**
+ * Check a GitHub token before fetching anything: who it belongs to and which scopes it lacks.
+ * Classic tokens list their scopes in X-OAuth-Scopes; fine-grained tokens do not, so for those
+ * only the owner is known and `scopes` is null.
+ * @throws UnauthorizedError when GitHub rejects the token, NetworkError when it cannot be reached
+ */
+export async function validateGitHubToken(token: string, host: GitHubHost): Promise<TokenScopeReport> {
+  const fetchWithLimits = getRequestScheduler().createFetch();
+
+  const errorContext = { host, hasToken: true, notFound: 'GitHub user not found.', requiredScopes: 'read:user' };
+
+  let response: Response;
+  try {
+    response = await fetchWithLimits(`${host.apiUrl}/user`, {
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github+json',
+      },
+    });
+  } catch (error) {
+    throw toGitHubError(error, errorContext);
+  }
+
+  if (!response.ok) {
+    // Same shape as an Octokit RequestError, so 401s, rate limits and 403s map like everywhere else
+    const message = await response.text().catch(() => '');
+    throw toGitHubError(
+      Object.assign(new Error(message || `HTTP ${response.status}`), { status: response.status, response: { headers: response.headers } }),
+      errorContext
+    );
+  }
+
+  const viewer = (await response.json()) as { login: string };
+  const header = response.headers.get('x-oauth-scopes');
+  if (header === null) {
+    return { login: viewer.login, scopes: null, missing: [] };
+  }
+
+  const scopes = header.split(',').map((scope) => scope.trim()).filter(Boolean);
+  const missing = WANTED_SCOPES
+    .filter(({ scope, impliedBy }) => !scopes.includes(scope) && !impliedBy.some((broader) => scopes.includes(broader)))
+    .map(({ scope, reason }) => ({ scope, reason }));
+
+  return { login: viewer.login, scopes, missing };
+}
+
+/**
+ * One line per missing scope, for the terminal, e.g. "repo: commits, pull requests and languages from private repositories"
+ */
+export function describeMissingScopes(report: TokenScopeReport): string[] {
+  return report.missing.map(({ scope, reason }) => `${scope}: ${reason}`);
+}
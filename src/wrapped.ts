@@ -0,0 +1,212 @@
+import type { WrappedStats, ComparisonStats, TrendReport, YearComparison, OrgWrappedStats, TeamWrappedStats, TeamSelector, TeamMember, Commit, Period, DateRange } from './types.js';
+import { MergedDataSource, type WrappedDataSource } from './data-source.js';
+import { GitHubOrgClient } from './github-org.js';
+import { StatsAnalyzer } from './analytics.js';
+import { NoDataError } from './errors.js';
+import { periodToRange, formatDateRange, previousYearRange, yearRange } from './utils/date-range.js';
+
+/**
+ * Fetch everything for a user's year (or custom date range) and run it through the analyzer.
+ * Shared by the interactive UI and headless CLI runs. Merged sources also get a per-identity breakdown.
+ * @param timeZone - IANA zone for the peak hour (default: the system zone)
+ * @param withCommitTimes - Fetch exact commit times for the punch card and peak hour, which
+ *   costs extra requests on some sources; summaries such as team leaderboards skip them
+ */
+export async function fetchWrappedStats(
+  client: WrappedDataSource,
+  period: Period,
+  onProgress?: (message: string) => void,
+  timeZone?: string,
+  withCommitTimes = true
+): Promise<WrappedStats> {
+  const analyzer = new StatsAnalyzer(timeZone);
+  const range = periodToRange(period);
+
+  onProgress?.(`Fetching ${client.displayName} data for ${range.label}...`);
+
+  const [user, repos, languageStats, commits, totalPRs, totalIssues, contributions, realLinesChanged, accurateCommitCount] = await Promise.all([
+    client.getUser(range),
+    client.getRepositories(range),
+    client.getLanguages(range),
+    client.getCommitsForYear(range, { withCommitTimes }),
+    client.getPullRequests(range),
+    client.getIssues(range),
+    client.getContributionCalendar(range),
+    client.getTotalLinesChanged(range),
+    client.getTotalCommitCount(range)
+  ]);
+
+  onProgress?.('Generating your wrapped with REAL data...');
+
+  const stats = await analyzer.generateWrappedStats(
+    user,
+    commits,
+    repos,
+    languageStats,
+    contributions,
+    totalPRs,
+    totalIssues,
+    realLinesChanged,
+    Number(range.from.slice(0, 4)),
+    formatDateRange(range),
+    accurateCommitCount,
+    range,
+    client.languageWeighting
+  );
+
+  if (client instanceof MergedDataSource) {
+    stats.sources = await client.getBreakdown(range);
+  }
+
+  return stats;
+}
+
+/**
+ * Fetch the same window one year earlier and compare it with already-computed stats
+ */
+export async function fetchComparisonStats(
+  client: WrappedDataSource,
+  stats: WrappedStats,
+  onProgress?: (message: string) => void
+): Promise<ComparisonStats> {
+  // Bucket the earlier window the same way as the stats it is compared with
+  const analyzer = new StatsAnalyzer(stats.timeZone);
+  const previousRange = previousYearRange(stats.period);
+
+  onProgress?.(`Fetching ${previousRange.label} for comparison...`);
+
+  const previous = await fetchPeriodSummary(client, analyzer, previousRange);
+
+  return analyzer.generateComparisonStats(previous, analyzer.summarizeForComparison(stats));
+}
+
+/**
+ * Fetch every calendar year since the account was created and summarize them as a trend report.
+ * Years are fetched one at a time to stay friendly with GitHub's rate limits.
+ */
+export async function fetchTrendReport(
+  client: WrappedDataSource,
+  onProgress?: (message: string) => void,
+  timeZone?: string
+): Promise<TrendReport> {
+  const analyzer = new StatsAnalyzer(timeZone);
+  const user = await client.getUser();
+  // GitHub launched in 2008, so there is nothing to fetch before that
+  const firstYear = Math.max(new Date(user.created_at).getFullYear(), 2008);
+  const currentYear = new Date().getFullYear();
+
+  const years: YearComparison[] = [];
+  for (let year = firstYear; year <= currentYear; year++) {
+    onProgress?.(`Fetching ${year} for your trend report (${year - firstYear + 1}/${currentYear - firstYear + 1})...`);
+    years.push(await fetchPeriodSummary(client, analyzer, yearRange(year)));
+  }
+
+  return analyzer.generateTrendReport(user.login, years);
+}
+
+/**
+ * Fetch an organization's activity for a year (or custom date range) and aggregate it
+ */
+export async function fetchOrgWrappedStats(
+  client: GitHubOrgClient,
+  period: Period,
+  onProgress?: (message: string) => void
+): Promise<OrgWrappedStats> {
+  const analyzer = new StatsAnalyzer();
+  const range = periodToRange(period);
+
+  onProgress?.(`Fetching organization activity for ${range.label}...`);
+  const activity = await client.getActivity(range);
+
+  onProgress?.('Generating your organization wrapped...');
+  return analyzer.generateOrgWrappedStats(activity, range);
+}
+
+/**
+ * Fetch every team member's stats for the same period and combine them into a team summary.
+ * Members are fetched one at a time; members without commits in the period are listed, not fatal.
+ * @param createClient - Builds a client for one login (shares host, token and cache settings)
+ */
+export async function fetchTeamWrappedStats(
+  createClient: (login: string) => WrappedDataSource,
+  createOrgClient: (org: string) => GitHubOrgClient,
+  team: TeamSelector,
+  period: Period,
+  onProgress?: (message: string) => void,
+  timeZone?: string
+): Promise<TeamWrappedStats> {
+  const analyzer = new StatsAnalyzer(timeZone);
+  const range = periodToRange(period);
+
+  let name: string;
+  let logins: string[];
+  if ('slug' in team) {
+    onProgress?.(`Fetching members of ${team.org}/${team.slug}...`);
+    logins = await createOrgClient(team.org).getTeamMembers(team.slug);
+    name = `${team.org}/${team.slug}`;
+  } else {
+    logins = team.usernames;
+    name = team.usernames.join(', ');
+  }
+
+  const members: TeamMember[] = [];
+  const inactiveMembers: string[] = [];
+
+  for (const [index, login] of logins.entries()) {
+    onProgress?.(`Fetching ${login} (${index + 1}/${logins.length})...`);
+    const client = createClient(login);
+
+    try {
+      const stats = await fetchWrappedStats(client, range, undefined, timeZone, false);
+      const [totalReviews, languageStats] = await Promise.all([
+        client.getCodeReviewCount(range),
+        client.getLanguages(range),
+      ]);
+      members.push({ stats, totalReviews, languageStats });
+    } catch (error) {
+      if (error instanceof NoDataError) {
+        inactiveMembers.push(login);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  onProgress?.('Building the team leaderboard...');
+  return analyzer.generateTeamWrappedStats(name, members, range, inactiveMembers);
+}
+
+/**
+ * Fetch the headline numbers for one window, treating an empty window as zeroes
+ */
+async function fetchPeriodSummary(
+  client: WrappedDataSource,
+  analyzer: StatsAnalyzer,
+  range: DateRange
+): Promise<YearComparison> {
+  const [commits, languageStats, contributions, totalPRs, totalIssues, totalReviews, accurateCommitCount] = await Promise.all([
+    // A quiet year is a valid data point, not an error
+    client.getCommitsForYear(range).catch((error: unknown): Commit[] => {
+      if (error instanceof NoDataError) return [];
+      throw error;
+    }),
+    client.getLanguages(range),
+    client.getContributionCalendar(range),
+    client.getPullRequests(range),
+    client.getIssues(range),
+    client.getCodeReviewCount(range),
+    client.getTotalCommitCount(range)
+  ]);
+
+  return analyzer.generateYearComparison(
+    Number(range.from.slice(0, 4)),
+    commits,
+    languageStats,
+    contributions,
+    totalPRs,
+    totalIssues,
+    accurateCommitCount,
+    range.label,
+    totalReviews
+  );
+}
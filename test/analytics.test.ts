@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { StatsAnalyzer } from '../src/analytics.js';
+import { customRange, yearRange } from '../src/utils/date-range.js';
+import type { ContributionDay, Language } from '../src/types.js';
+
+const analyzer = new StatsAnalyzer('UTC');
+
+function languages(...percentages: number[]): Language[] {
+  return percentages.map((percentage, index) => ({ name: `Lang${index}`, weight: percentage, percentage, color: '#858585' }));
+}
+
+function days(...entries: Array<[string, number]>): ContributionDay[] {
+  return entries.map(([date, count]) => ({ date, count }));
+}
+
+describe('StatsAnalyzer language wording', () => {
+  test('says what the polyglot percentages are a share of', () => {
+    const polyglot = (stats: Parameters<StatsAnalyzer['calculateAchievements']>[0]) =>
+      analyzer.calculateAchievements(stats).find((achievement) => achievement.id === 'polyglot');
+
+    expect(polyglot({ topLanguages: languages(20, 20, 20, 20, 20), languageWeighting: 'lines-changed' })?.description)
+      .toBe('Put 5%+ of your commits, split by lines changed per language, into each of 5 languages');
+    expect(polyglot({ topLanguages: languages(20, 20, 20, 20, 20), languageWeighting: 'primary-language' })?.description)
+      .toBe("Put 5%+ of your commits, counted toward each repository's primary language, into each of 5 languages");
+  });
+
+  test('words the specialist insight by the language weighting', () => {
+    expect(analyzer.generateSmartInsights({ topLanguages: languages(80, 20), languageWeighting: 'repo-bytes' }))
+      .toContain("💎 Lang0 specialist - 80% of your commits, split by each repository's language sizes");
+    expect(analyzer.generateSmartInsights({ topLanguages: languages(80, 20) }))
+      .toContain('💎 Lang0 specialist - 80% of your commits');
+  });
+});
+
+describe('StatsAnalyzer monthly breakdown', () => {
+  test('sums a year per month and picks the best and quietest month', () => {
+    // Jan-Jun: 2 each, Jul-Dec: 4 each, with a record March and an empty October
+    const counts = [2, 2, 9, 2, 2, 2, 4, 4, 4, 0, 4, 4];
+    const contributions = counts.flatMap((count, index) => {
+      const month = String(index + 1).padStart(2, '0');
+      return days([`2024-${month}-01`, count], [`2024-${month}-15`, 0]);
+    });
+
+    const monthly = analyzer.calculateMonthlyBreakdown(contributions, yearRange(2024));
+
+    expect(monthly.months).toHaveLength(12);
+    expect(monthly.months.map((month) => month.contributions)).toEqual(counts);
+    expect(monthly.months[2]).toEqual({ month: '2024-03', label: 'Mar 2024', contributions: 9, change: 350 });
+    expect(monthly.months[0].change).toBeNull();
+    expect(monthly.months[10].change).toBeNull(); // After the empty October
+    expect(monthly.bestMonth).toBe('2024-03');
+    expect(monthly.quietestMonth).toBe('2024-10');
+    // First half averages 19/6, the second 20/6
+    expect(monthly.momentum).toBe(5);
+  });
+
+  test('gives ties to the earlier month', () => {
+    const monthly = analyzer.calculateMonthlyBreakdown(days(['2024-01-05', 3], ['2024-02-05', 3]), customRange('2024-01-01', '2024-02-29'));
+
+    expect(monthly.bestMonth).toBe('2024-01');
+    expect(monthly.quietestMonth).toBe('2024-01');
+    expect(monthly.momentum).toBe(0);
+  });
+
+  test('cuts months to a period shorter than a year', () => {
+    const contributions = days(['2024-02-01', 50], ['2024-02-20', 2], ['2024-03-10', 1], ['2024-04-05', 6], ['2024-04-30', 50]);
+
+    const monthly = analyzer.calculateMonthlyBreakdown(contributions, customRange('2024-02-15', '2024-04-10'));
+
+    expect(monthly.months.map((month) => [month.label, month.contributions])).toEqual([
+      ['Feb 2024', 2],
+      ['Mar 2024', 1],
+      ['Apr 2024', 6],
+    ]);
+    expect(monthly.bestMonth).toBe('2024-04');
+    expect(monthly.quietestMonth).toBe('2024-03');
+    // The middle month counts toward neither half
+    expect(monthly.momentum).toBe(200);
+  });
+
+  test('has no momentum within a single month or from an empty start', () => {
+    expect(analyzer.calculateMonthlyBreakdown(days(['2024-05-02', 4]), customRange('2024-05-01', '2024-05-20')).momentum).toBe(0);
+    expect(analyzer.calculateMonthlyBreakdown(days(['2024-06-02', 4]), customRange('2024-05-01', '2024-06-20')).momentum).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test';
+import { CliUsageError, exitCodeForError, ExitCode, parseCliArgs } from '../src/cli.js';
+import {
+  InsufficientScopesError,
+  MissingConfigurationError,
+  NetworkError,
+  NoDataError,
+  NotFoundError,
+  OfflineCacheMissError,
+  RateLimitedError,
+  UnauthorizedError,
+} from '../src/errors.js';
+
+const parse = (...argv: string[]) => parseCliArgs(argv);
+const usageError = (argv: string[], message: string | RegExp) => expect(() => parseCliArgs(argv)).toThrow(message);
+
+describe('parseCliArgs', () => {
+  test('turns unknown and malformed flags into usage errors', () => {
+    expect(() => parse('--nope')).toThrow(CliUsageError);
+    expect(() => parse('stray')).toThrow(CliUsageError);
+    usageError(['--format', 'pdf'], 'Invalid --format "pdf". Expected one of: json, png, text, csv');
+    usageError(['--source', 'svn'], /^Invalid --source "svn"/);
+    usageError(['--timezone', 'Mars/Olympus'], /Mars\/Olympus/);
+  });
+
+  test('rejects modes that cannot be combined', () => {
+    usageError(['--refresh', '--offline'], 'Options --refresh and --offline cannot be combined.');
+    usageError(['--org', 'acme', '--user', 'jane', '--trend'], '--org cannot be combined with --user, --trend.');
+    usageError(['--team', 'alice,bob', '--org', 'acme'], '--team cannot be combined with --org.');
+    usageError(['--team', 'alice,bob', '--format', 'png'], '--format png is not available for team wraps. Use text, json or csv.');
+    usageError(['--identity', 'github:jane', '--source', 'gitlab'], '--identity cannot be combined with --source.');
+    usageError(['--local', '.', '--team', 'alice'], '--local cannot be combined with --team.');
+    usageError(['--local', '.', '--source', 'gitlab'], '--local reads local repositories and cannot be combined with --source gitlab.');
+    usageError(['--author-email', 'me@example.com'], '--author-email requires --local.');
+    usageError(['--format', 'csv'], '--format csv is only available together with --trend or --team.');
+    usageError(['--instance', 'https://git.example.com'], '--instance requires --source gitlab or --source gitea.');
+  });
+
+  test('maps the cache flags onto one cache mode', () => {
+    expect(parse().cache).toBe('default');
+    expect(parse('--refresh').cache).toBe('refresh');
+    expect(parse('--offline').cache).toBe('offline');
+  });
+});
+
+describe('period flags', () => {
+  test('accept exactly one period', () => {
+    expect(parse('--year', '2024').period).toBe(2024);
+    expect(parse('--quarter', '2024-Q2').period).toEqual({ from: '2024-04-01', to: '2024-06-30', label: 'Q2 2024' });
+    expect(parse('--fiscal-year', '2023', '--fiscal-start', '7').period).toEqual({ from: '2023-07-01', to: '2024-06-30', label: 'FY2023' });
+    expect(parse('--from', '2024-02-01', '--to', '2024-02-29').period).toMatchObject({ from: '2024-02-01', to: '2024-02-29' });
+    expect(parse().period).toBeUndefined();
+
+    usageError(['--year', '2024', '--quarter', '2024-Q1'], 'Options --year, --quarter cannot be combined. Pick one period.');
+  });
+
+  test('reject values that cannot be wrapped', () => {
+    usageError(['--year', '2007'], /^Invalid --year "2007"/);
+    usageError(['--to', '2024-02-01'], '--to requires --from.');
+    usageError(['--fiscal-start', '7'], '--fiscal-start requires --fiscal-year.');
+    usageError(['--from', '2024-03-01', '--to', '2024-02-01'], 'Invalid date range: 2024-03-01 is after 2024-02-01.');
+    usageError(['--from', '2022-01-01', '--to', '2024-01-01'], /GitHub only allows up to one year per wrap\.$/);
+    usageError(['--last', '0'], 'Invalid number of days "0". Expected a positive whole number.');
+    usageError(['--quarter', '2024-Q5'], 'Invalid quarter "2024-Q5". Expected a value like 2025-Q2.');
+  });
+});
+
+describe('--identity', () => {
+  test('parses source:login with an optional host', () => {
+    expect(parse('--identity', 'github:octocat', '--identity', 'gitlab:jane@gitlab.example.com').identities).toEqual([
+      { source: 'github', login: 'octocat' },
+      { source: 'gitlab', login: 'jane', instance: 'https://gitlab.example.com' },
+    ]);
+    expect(parse('--identity', 'github:jdoe@https://ghe.example.com/').identities).toEqual([
+      { source: 'github', login: 'jdoe', instance: 'ghe.example.com' },
+    ]);
+  });
+
+  test('rejects unknown sources and Gitea without an instance', () => {
+    usageError(['--identity', 'octocat'], /^Invalid --identity "octocat"/);
+    usageError(['--identity', 'local:me'], /^Invalid --identity source "local"/);
+    usageError(['--identity', 'gitea:jane'], '--identity gitea:jane needs the instance, e.g. gitea:jane@https://gitea.example.com.');
+  });
+});
+
+describe('--team', () => {
+  test('reads an organization team or a list of logins', () => {
+    expect(parse('--team', 'acme/Platform').team).toEqual({ org: 'acme', slug: 'platform' });
+    expect(parse('--team', ' alice, bob,alice ,').team).toEqual({ usernames: ['alice', 'bob'] });
+  });
+
+  test('rejects anything else', () => {
+    usageError(['--team', ','], 'Invalid --team ",". Expected logins separated by commas (alice,bob) or org/team-slug.');
+    usageError(['--team', 'alice,b@d'], /^Invalid --team "alice,b@d"/);
+  });
+});
+
+describe('exitCodeForError', () => {
+  test('gives every error class its own exit code', () => {
+    expect(exitCodeForError(new CliUsageError('bad flag'))).toBe(ExitCode.Usage);
+    expect(exitCodeForError(new MissingConfigurationError('no email'))).toBe(ExitCode.Usage);
+    expect(exitCodeForError(new NotFoundError('nobody'))).toBe(ExitCode.NotFound);
+    expect(exitCodeForError(new UnauthorizedError('no token', true))).toBe(ExitCode.AuthRequired);
+    expect(exitCodeForError(new RateLimitedError('slow down'))).toBe(ExitCode.RateLimited);
+    expect(exitCodeForError(new NoDataError('quiet year'))).toBe(ExitCode.NoData);
+    expect(exitCodeForError(new InsufficientScopesError('read:org', ['read:org']))).toBe(ExitCode.InsufficientScopes);
+    expect(exitCodeForError(new NetworkError('offline'))).toBe(ExitCode.Network);
+    expect(exitCodeForError(new OfflineCacheMissError('jane', '2024'))).toBe(ExitCode.OfflineCacheMiss);
+    expect(ExitCode.OfflineCacheMiss).toBe(9);
+  });
+
+  test('falls back to the generic error code', () => {
+    expect(exitCodeForError(new Error('boom'))).toBe(ExitCode.Error);
+    expect(exitCodeForError('boom')).toBe(ExitCode.Error);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { MergedDataSource, type WrappedDataSource } from '../src/data-source.js';
+import { StatsAnalyzer } from '../src/analytics.js';
+import type { ContributionDay, Repository } from '../src/types.js';
+
+function repository(fullName: string, stars: number): Repository {
+  return {
+    name: fullName.split('/')[1],
+    full_name: fullName,
+    description: null,
+    stargazers_count: stars,
+    forks_count: 0,
+    language: null,
+    created_at: '2020-01-01T00:00:00Z',
+    updated_at: '2024-06-01T00:00:00Z',
+    size: 100,
+  };
+}
+
+// Only what getRepositories reads
+function source(repositories: Repository[]): WrappedDataSource {
+  return { getRepositories: async () => repositories } as unknown as WrappedDataSource;
+}
+
+// Only what getContributionCalendar reads
+function calendarSource(...days: Array<[string, number]>): WrappedDataSource {
+  const calendar: ContributionDay[] = days.map(([date, count]) => ({ date, count }));
+  return { getContributionCalendar: async () => calendar } as unknown as WrappedDataSource;
+}
+
+describe('MergedDataSource', () => {
+  test('counts a repository once per host', async () => {
+    const merged = new MergedDataSource([
+      { source: source([repository('jane/api', 5), repository('acme/tools', 3)]), login: 'jane', host: 'github.com' },
+      { source: source([repository('acme/tools', 3)]), login: 'acme', host: 'github.com' },
+      { source: source([repository('jane/api', 2)]), login: 'jane', host: 'gitlab.example.com' },
+    ]);
+
+    const repos = await merged.getRepositories(2024);
+
+    expect(repos.map((repo) => [repo.full_name, repo.stargazers_count])).toEqual([
+      ['jane/api', 5],
+      ['acme/tools', 3],
+      ['jane/api', 2],
+    ]);
+  });
+
+  test('sums calendars per day across identities covering different days', async () => {
+    const merged = new MergedDataSource([
+      // A full run of days, another that starts later, and a sparse one with gaps
+      { source: calendarSource(['2024-01-01', 1], ['2024-01-02', 0], ['2024-01-03', 2], ['2024-01-04', 0]), login: 'jane', host: 'github.com' },
+      { source: calendarSource(['2024-01-03', 1], ['2024-01-04', 3], ['2024-01-05', 0], ['2024-01-06', 4]), login: 'jane', host: 'gitlab.com' },
+      { source: calendarSource(['2024-01-06', 1], ['2024-01-02', 2]), login: 'jdoe', host: 'gitea.example.com' },
+    ]);
+
+    const calendar = await merged.getContributionCalendar(2024);
+
+    expect(calendar).toEqual([
+      { date: '2024-01-01', count: 1 },
+      { date: '2024-01-02', count: 2 },
+      { date: '2024-01-03', count: 3 },
+      { date: '2024-01-04', count: 3 },
+      { date: '2024-01-05', count: 0 },
+      { date: '2024-01-06', count: 5 },
+    ]);
+    // A streak can run across days that each came from a different identity
+    expect(new StatsAnalyzer('UTC').calculateStreak(calendar)).toEqual({ longest: 4, current: 1 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  customRange,
+  parseQuarter,
+  fiscalYearRange,
+  lastDaysRange,
+  previousYearRange,
+  validateRange,
+  countDays,
+  formatDateRange,
+} from '../src/utils/date-range.js';
+
+describe('customRange', () => {
+  test('keeps both ends of a past window', () => {
+    expect(customRange('2024-03-01', '2024-05-31')).toEqual({
+      from: '2024-03-01',
+      to: '2024-05-31',
+      label: 'Mar 1 - May 31, 2024',
+    });
+  });
+
+  test('rejects days the month does not have', () => {
+    expect(() => customRange('2025-02-30', '2025-03-31')).toThrow('Invalid date "2025-02-30"');
+    expect(() => customRange('2025-01-01', '2025-04-31')).toThrow('Invalid date "2025-04-31"');
+    expect(() => customRange('2025-13-01', '2025-12-31')).toThrow('Invalid date "2025-13-01"');
+  });
+
+  test('accepts Feb 29 only in leap years', () => {
+    expect(customRange('2024-02-29', '2024-03-01').from).toBe('2024-02-29');
+    expect(() => customRange('2023-02-29', '2023-03-01')).toThrow('Invalid date');
+  });
+
+  test('rejects other formats', () => {
+    expect(() => customRange('2025-1-5', '2025-02-01')).toThrow('Expected YYYY-MM-DD');
+    expect(() => customRange('01/05/2025', '2025-02-01')).toThrow('Expected YYYY-MM-DD');
+  });
+});
+
+describe('parseQuarter', () => {
+  test('accepts the year before or after the quarter', () => {
+    for (const value of ['2024-Q2', '2024q2', 'Q2-2024', 'q22024']) {
+      expect(parseQuarter(value)).toEqual({ from: '2024-04-01', to: '2024-06-30', label: 'Q2 2024' });
+    }
+  });
+
+  test('rejects quarters outside 1-4', () => {
+    expect(() => parseQuarter('2024-Q5')).toThrow('Invalid quarter');
+  });
+});
+
+describe('fiscalYearRange', () => {
+  test('runs from the start month to the month before it a year later', () => {
+    expect(fiscalYearRange(2023, 4)).toEqual({ from: '2023-04-01', to: '2024-03-31', label: 'FY2023' });
+    expect(fiscalYearRange(2023, 1)).toEqual({ from: '2023-01-01', to: '2023-12-31', label: 'FY2023' });
+  });
+
+  test('rejects a start month outside 1-12', () => {
+    expect(() => fiscalYearRange(2023, 13)).toThrow('Invalid fiscal year start month');
+  });
+});
+
+describe('lastDaysRange', () => {
+  test('includes today', () => {
+    const range = lastDaysRange(30, new Date('2025-03-10T12:00:00Z'));
+    expect(range).toEqual({ from: '2025-02-09', to: '2025-03-10', label: 'Last 30 days' });
+    expect(countDays(range)).toBe(30);
+  });
+
+  test('rejects fractions and zero', () => {
+    expect(() => lastDaysRange(0)).toThrow('Invalid number of days');
+    expect(() => lastDaysRange(1.5)).toThrow('Invalid number of days');
+  });
+});
+
+describe('previousYearRange', () => {
+  test('shifts the window and its label back a year', () => {
+    expect(previousYearRange({ from: '2024-04-01', to: '2024-06-30', label: 'Q2 2024' }))
+      .toEqual({ from: '2023-04-01', to: '2023-06-30', label: 'Q2 2023' });
+  });
+
+  test('turns Feb 29 into Feb 28', () => {
+    expect(previousYearRange({ from: '2024-02-01', to: '2024-02-29', label: '' }).to).toBe('2023-02-28');
+  });
+});
+
+describe('validateRange', () => {
+  test('rejects reversed and over-long windows', () => {
+    expect(() => validateRange({ from: '2024-05-01', to: '2024-04-01', label: 'x' })).toThrow('is after');
+    expect(() => validateRange({ from: '2023-01-01', to: '2024-06-30', label: 'x' })).toThrow('only allows up to one year');
+  });
+
+  test('allows a leap year', () => {
+    expect(() => validateRange({ from: '2024-01-01', to: '2024-12-31', label: '2024' })).not.toThrow();
+  });
+});
+
+describe('formatDateRange', () => {
+  test('names the year once when both ends share it', () => {
+    expect(formatDateRange({ from: '2024-01-01', to: '2024-12-31', label: '' })).toBe('Jan 1 - Dec 31, 2024');
+    expect(formatDateRange({ from: '2024-04-01', to: '2025-03-31', label: '' })).toBe('Apr 1, 2024 - Mar 31, 2025');
+  });
+});
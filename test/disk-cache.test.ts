@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiskCache } from '../src/utils/disk-cache.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'wrapped-cache-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('DiskCache', () => {
+  test('serves fresh entries and drops expired ones', async () => {
+    const cache = new DiskCache({ dir });
+    const key = cache.key('github.com', 'Jane', '2024', 'query { viewer }');
+
+    expect(await cache.read(key)).toBeUndefined();
+    await cache.write(key, { commits: 3 });
+    expect(await cache.read(key)).toEqual({ commits: 3 });
+    expect(statSync(join(dir, `${key}.json`)).mode & 0o777).toBe(0o600);
+
+    expect(await new DiskCache({ dir, ttlMs: 0 }).read(key)).toBeUndefined();
+  });
+
+  test('refresh skips stored entries, offline serves them at any age', async () => {
+    const cache = new DiskCache({ dir });
+    const key = cache.key('github.com', 'jane', '2024', 'query { viewer }');
+    await cache.write(key, { commits: 3 });
+
+    expect(await new DiskCache({ dir, mode: 'refresh' }).read(key)).toBeUndefined();
+    expect(await new DiskCache({ dir, mode: 'offline', ttlMs: 0 }).read(key)).toEqual({ commits: 3 });
+  });
+
+  test('ignores entries written in another format version', async () => {
+    const cache = new DiskCache({ dir });
+    const key = cache.key('github.com', 'jane', '2024', 'query { viewer }');
+    await cache.write(key, { commits: 3 });
+
+    const path = join(dir, `${key}.json`);
+    const entry = JSON.parse(readFileSync(path, 'utf-8'));
+    writeFileSync(path, JSON.stringify({ ...entry, version: entry.version + 1 }));
+    expect(await new DiskCache({ dir, mode: 'offline' }).read(key)).toBeUndefined();
+
+    writeFileSync(path, '{ not json');
+    expect(await cache.read(key)).toBeUndefined();
+  });
+
+  test('keys entries by host, user, period, query and token', () => {
+    const cache = new DiskCache({ dir });
+    const key = (token?: string, query = 'query { viewer }') => cache.key('ghe.example.com', 'Jane', '2024-01-01..2024-03-31', query, token);
+
+    expect(key()).toBe(key());
+    expect(key()).toStartWith(join('ghe.example.com', 'jane', '2024-01-01..2024-03-31-'));
+    expect(key()).toEndWith('-anonymous');
+    expect(key('ghp_one')).not.toBe(key());
+    expect(key('ghp_one')).not.toBe(key('ghp_two'));
+    expect(key('ghp_one')).not.toContain('ghp_one');
+    expect(key(undefined, 'query { other }')).not.toBe(key());
+  });
+});
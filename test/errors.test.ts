@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  InsufficientScopesError,
+  isNetworkFailure,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  toGitHubError,
+  UnauthorizedError,
+} from '../src/errors.js';
+import { resolveGitHubHost } from '../src/utils/github-host.js';
+
+const context = {
+  host: resolveGitHubHost(),
+  hasToken: true,
+  notFound: 'GitHub user "nobody" not found.',
+  requiredScopes: 'read:user',
+};
+
+// Shaped like Octokit's RequestError and GraphqlResponseError
+function requestError(status: number, headers: { [name: string]: string } = {}, message = 'HttpError') {
+  return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+function graphqlError(errors: Array<{ type?: string; message?: string }>) {
+  return Object.assign(new Error('GraphQL request failed'), { errors, headers: {} });
+}
+
+describe('isNetworkFailure', () => {
+  test('finds connection codes on the error or down its cause chain', () => {
+    expect(isNetworkFailure(Object.assign(new Error('getaddrinfo'), { code: 'ENOTFOUND' }))).toBe(true);
+    expect(isNetworkFailure(new Error('request failed', { cause: { code: 'ECONNRESET' } }))).toBe(true);
+    expect(isNetworkFailure(new TypeError('fetch failed'))).toBe(true);
+  });
+
+  test('ignores HTTP errors and values that are not objects', () => {
+    expect(isNetworkFailure(requestError(500))).toBe(false);
+    expect(isNetworkFailure(Object.assign(new Error('odd'), { code: 42 }))).toBe(false);
+    expect(isNetworkFailure('ENOTFOUND')).toBe(false);
+    expect(isNetworkFailure(undefined)).toBe(false);
+  });
+});
+
+describe('toGitHubError', () => {
+  test('maps REST statuses', () => {
+    expect(toGitHubError(requestError(404), context)).toBeInstanceOf(NotFoundError);
+    expect(toGitHubError(requestError(401), context)).toBeInstanceOf(UnauthorizedError);
+    expect(toGitHubError(requestError(403), context)).toBeInstanceOf(InsufficientScopesError);
+  });
+
+  test('reads the rate limit reset from the response headers', () => {
+    const error = toGitHubError(requestError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1900000000' }), context);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).resetAt?.getTime()).toBe(1900000000 * 1000);
+  });
+
+  test('maps GraphQL error types', () => {
+    expect(toGitHubError(graphqlError([{ type: 'NOT_FOUND' }]), context)).toBeInstanceOf(NotFoundError);
+    expect(toGitHubError(graphqlError([{ type: 'RATE_LIMITED' }]), context)).toBeInstanceOf(RateLimitedError);
+
+    const scopes = toGitHubError(graphqlError([{
+      type: 'INSUFFICIENT_SCOPES',
+      message: "Your token has not been granted the required scopes. It requires one of the following scopes: ['read:org'], but your token has only been granted the: ['repo'] scopes.",
+    }]), context);
+    expect(scopes).toBeInstanceOf(InsufficientScopesError);
+    expect((scopes as InsufficientScopesError).missingScopes).toEqual(['read:org']);
+  });
+
+  test('maps connection failures and leaves other errors generic', () => {
+    expect(toGitHubError(new TypeError('fetch failed'), context)).toBeInstanceOf(NetworkError);
+
+    const error = toGitHubError('something odd', context);
+    expect(error.constructor).toBe(Error);
+    expect(error.message).toBe('Failed to fetch data: something odd');
+  });
+});
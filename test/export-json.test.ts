@@ -0,0 +1,12 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import { WRAPPED_SCHEMA_URL, WRAPPED_SCHEMA_VERSION } from '../src/export-json.js';
+
+const schema = JSON.parse(readFileSync(new URL('../schema/wrapped-stats.schema.json', import.meta.url), 'utf-8'));
+
+describe('JSON export schema', () => {
+  test('documents point at the schema of their own version', () => {
+    expect(WRAPPED_SCHEMA_URL).toContain(`/schema-v${WRAPPED_SCHEMA_VERSION}/`);
+    expect(schema.$id).toBe(WRAPPED_SCHEMA_URL);
+  });
+});
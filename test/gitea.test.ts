@@ -0,0 +1,209 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { GiteaClient } from '../src/gitea.js';
+import { fetchWrappedStats } from '../src/wrapped.js';
+import { NotFoundError, UnauthorizedError } from '../src/errors.js';
+import { yearRange } from '../src/utils/date-range.js';
+
+const USER = {
+  login: 'alice',
+  full_name: 'Alice Liddell',
+  avatar_url: 'https://forge.example.com/avatars/alice',
+  description: 'Rabbit holes',
+  followers_count: 8,
+  following_count: 2,
+  created: '2018-07-04T12:00:00Z',
+};
+
+function repository(name: string, stars: number, updatedAt: string) {
+  return {
+    name,
+    full_name: `alice/${name}`,
+    description: '',
+    stars_count: stars,
+    forks_count: 0,
+    language: '',
+    created_at: '2020-01-01T00:00:00Z',
+    updated_at: updatedAt,
+    size: 10,
+    owner: { login: 'alice' },
+  };
+}
+
+const REPOSITORIES = [
+  repository('forge', 4, '2024-06-01T00:00:00Z'),
+  repository('notes', 1, '2024-02-01T00:00:00Z'),
+  repository('empty', 9, '2024-01-10T00:00:00Z'),
+  repository('old', 30, '2022-01-01T00:00:00Z'), // Untouched in 2024, never looked at
+];
+
+const LANGUAGES: { [name: string]: object } = {
+  forge: { Rust: 3000, Shell: 1000 },
+  notes: { Markdown: 500 },
+  empty: {},
+};
+
+function commit(login: string | null, date: string, additions: number, deletions: number) {
+  return {
+    sha: `${login}-${date}`,
+    commit: { author: { name: login || 'Someone', email: 'someone@example.com', date }, message: 'Change things' },
+    author: login ? { login } : null,
+    stats: { additions, deletions, total: additions + deletions },
+  };
+}
+
+const COMMITS: { [name: string]: object[] } = {
+  forge: [
+    commit('alice', '2024-02-10T10:05:00Z', 30, 5),
+    commit('Alice', '2024-02-11T10:40:00Z', 10, 5),
+    commit('bob', '2024-02-12T08:00:00Z', 100, 100),
+    commit(null, '2024-02-13T08:00:00Z', 100, 100),
+  ],
+  notes: [],
+};
+
+const PULLS: { [name: string]: object[] } = {
+  forge: [{ user: { login: 'bob' }, created_at: '2024-03-01T00:00:00Z' }],
+  notes: [
+    { user: { login: 'alice' }, created_at: '2024-03-02T00:00:00Z' },
+    { user: { login: 'alice' }, created_at: '2023-12-30T00:00:00Z' },
+  ],
+};
+
+const ISSUES: { [name: string]: object[] } = {
+  forge: [{ user: { login: 'alice' }, created_at: '2024-04-01T00:00:00Z' }],
+  notes: [],
+};
+
+const unix = (iso: string) => Date.parse(iso) / 1000;
+
+const HEATMAP = [
+  { timestamp: unix('2023-12-31T23:45:00Z'), contributions: 6 },
+  { timestamp: unix('2024-02-10T10:00:00Z'), contributions: 1 },
+  { timestamp: unix('2024-02-11T10:30:00Z'), contributions: 1 },
+  { timestamp: unix('2024-02-11T10:45:00Z'), contributions: 1 },
+];
+
+interface MockOptions {
+  status?: number; // Answer every request with this status instead
+  endlessRepositories?: boolean; // Always return a full page of repositories
+  endlessPulls?: boolean; // Full pages of forge pull requests, 2024 on the first page and older after it
+}
+
+let server: ReturnType<typeof Bun.serve> | undefined;
+const requests: Array<{ url: URL; authorization: string | null }> = [];
+
+/**
+ * A local stand-in for the Gitea API v1 serving one user's 2024
+ */
+function startGiteaMock(options: MockOptions = {}): string {
+  requests.length = 0;
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const url = new URL(request.url);
+      requests.push({ url, authorization: request.headers.get('authorization') });
+      const path = url.pathname.replace(/^\/api\/v1/, '');
+      const notFound = new Response('{"message":"Not Found"}', { status: 404 });
+
+      if (options.status) return new Response('{}', { status: options.status });
+
+      if (path === '/users/alice') return Response.json(USER);
+      if (path === '/users/alice/heatmap') return Response.json(HEATMAP);
+      if (path === '/users/alice/repos') {
+        if (options.endlessRepositories) {
+          return Response.json(Array.from({ length: 50 }, (_, index) => repository(`r${index}`, 0, '2020-01-01T00:00:00Z')));
+        }
+        return Response.json(url.searchParams.get('page') === '1' ? REPOSITORIES : []);
+      }
+
+      const match = path.match(/^\/repos\/alice\/([^/]+)\/(languages|commits|pulls|issues)$/);
+      if (!match) return notFound;
+      const [, name, resource] = match;
+
+      if (resource === 'languages') return Response.json(LANGUAGES[name] ?? {});
+      // Gitea answers 409 for the commits of a repository without any
+      if (name === 'empty') return resource === 'commits' ? new Response('{}', { status: 409 }) : Response.json([]);
+      if (resource === 'commits') return Response.json(COMMITS[name] ?? []);
+      if (resource === 'pulls' && options.endlessPulls && name === 'forge') {
+        const createdAt = url.searchParams.get('page') === '1' ? '2024-05-01T00:00:00Z' : '2023-05-01T00:00:00Z';
+        return Response.json(Array.from({ length: 50 }, () => ({ user: { login: 'alice' }, created_at: createdAt })));
+      }
+      if (resource === 'pulls') return Response.json(PULLS[name] ?? []);
+      return Response.json(ISSUES[name] ?? []);
+    },
+  });
+  return `http://localhost:${server.port}`;
+}
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+describe('GiteaClient', () => {
+  test('maps a Gitea year onto WrappedStats', async () => {
+    const baseUrl = startGiteaMock();
+    const client = new GiteaClient('alice', 'gitea-test', { baseUrl });
+
+    const stats = await fetchWrappedStats(client, yearRange(2024), undefined, 'UTC');
+
+    expect(stats.user).toEqual({
+      login: 'alice',
+      name: 'Alice Liddell',
+      avatar_url: USER.avatar_url,
+      bio: 'Rabbit holes',
+      public_repos: 4,
+      followers: 8,
+      following: 2,
+      created_at: USER.created,
+    });
+    expect(stats.totalCommits).toBe(2);
+    expect(stats.totalPRs).toBe(1);
+    expect(stats.totalIssues).toBe(1);
+    expect(stats.totalStars).toBe(5);
+    expect(stats.peakHour).toBe(10);
+    expect(stats.contributions.find((day) => day.date === '2023-12-31')).toBeUndefined();
+    expect(stats.contributions.find((day) => day.date === '2024-02-10')?.count).toBe(1);
+    expect(stats.contributions.find((day) => day.date === '2024-02-11')?.count).toBe(2);
+    expect(stats.languageWeighting).toBe('repo-bytes');
+    expect(stats.topLanguages.map((lang) => [lang.name, lang.percentage])).toEqual([
+      ['Rust', 75],
+      ['Shell', 25],
+    ]);
+
+    expect(requests.every((request) => request.authorization === 'token gitea-test')).toBe(true);
+    expect(requests.some((request) => request.url.pathname.includes('/repos/alice/old/'))).toBe(false);
+    const commits = requests.find((request) => request.url.pathname.endsWith('/forge/commits'))!;
+    expect(commits.url.searchParams.get('since')).toStartWith('2024-01-01');
+    expect(commits.url.searchParams.get('stat')).toBe('true');
+  });
+
+  test('reports when repository paging hits the page ceiling', async () => {
+    const baseUrl = startGiteaMock({ endlessRepositories: true });
+    const messages: string[] = [];
+    const client = new GiteaClient('alice', undefined, { baseUrl, onProgress: (message) => messages.push(message) });
+
+    expect((await client.getUser(yearRange(2024))).public_repos).toBe(2000);
+    expect(messages).toContain('⚠ Stopped after 40 pages (2000 items) of /users/alice/repos; the rest is left out.');
+  });
+
+  test('stops paging pull requests once they predate the period', async () => {
+    const baseUrl = startGiteaMock({ endlessPulls: true });
+    const client = new GiteaClient('alice', undefined, { baseUrl });
+
+    expect(await client.getPullRequests(yearRange(2024))).toBe(51);
+
+    const pulls = requests.filter((request) => request.url.pathname.endsWith('/forge/pulls'));
+    expect(pulls.map((request) => request.url.searchParams.get('page'))).toEqual(['1', '2']);
+    expect(pulls[0].url.searchParams.get('sort')).toBe('newest');
+  });
+
+  test('maps unknown users and rejected tokens to typed errors', async () => {
+    const baseUrl = startGiteaMock();
+    await expect(new GiteaClient('nobody', undefined, { baseUrl }).getUser(yearRange(2024))).rejects.toBeInstanceOf(NotFoundError);
+    server?.stop(true);
+
+    const rejecting = startGiteaMock({ status: 401 });
+    await expect(new GiteaClient('alice', 'expired', { baseUrl: rejecting }).getUser(yearRange(2024))).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { GitHubGraphQLClient } from '../src/github-graphql.js';
+import { fetchWrappedStats } from '../src/wrapped.js';
+import { resolveGitHubHost } from '../src/utils/github-host.js';
+import { yearRange } from '../src/utils/date-range.js';
+
+const PAGE_INFO_DONE = { hasNextPage: false, endCursor: null };
+
+function repoContribution(nameWithOwner: string, nodes: Array<{ occurredAt: string; commitCount: number }>) {
+  return {
+    repository: {
+      name: nameWithOwner.split('/')[1],
+      nameWithOwner,
+      stargazerCount: 1,
+      forkCount: 0,
+      primaryLanguage: { name: 'Go', color: '#00ADD8' },
+      languages: { totalSize: 100, edges: [{ size: 100, node: { name: 'Go' } }] },
+    },
+    contributions: {
+      totalCount: nodes.reduce((sum, node) => sum + node.commitCount, 0),
+      pageInfo: PAGE_INFO_DONE,
+      nodes,
+    },
+  };
+}
+
+const USER = {
+  id: 'U_jane',
+  login: 'jane',
+  name: 'Jane Doe',
+  avatarUrl: 'https://avatars.example.com/jane',
+  bio: null,
+  company: null,
+  location: null,
+  createdAt: '2019-05-01T10:00:00Z',
+  repositories: { totalCount: 2 },
+  followers: { totalCount: 1 },
+  following: { totalCount: 1 },
+  contributionsCollection: {
+    totalCommitContributions: 7,
+    totalIssueContributions: 0,
+    totalPullRequestContributions: 0,
+    totalPullRequestReviewContributions: 0,
+    contributionCalendar: {
+      totalContributions: 7,
+      weeks: [{ contributionDays: [
+        { contributionCount: 2, date: '2024-03-04', weekday: 1, color: '#40c463' },
+        { contributionCount: 4, date: '2024-03-05', weekday: 2, color: '#30a14e' },
+        { contributionCount: 1, date: '2024-03-06', weekday: 3, color: '#9be9a8' },
+      ] }],
+    },
+    // Contribution days only carry a date, pinned to an arbitrary hour
+    commitContributionsByRepository: [
+      repoContribution('jane/api', [
+        { occurredAt: '2024-03-04T08:00:00Z', commitCount: 1 },
+        { occurredAt: '2024-03-05T08:00:00Z', commitCount: 1 },
+        { occurredAt: '2024-03-06T08:00:00Z', commitCount: 1 },
+      ]),
+      repoContribution('jane/docs', [{ occurredAt: '2024-03-05T08:00:00Z', commitCount: 3 }]),
+      repoContribution('acme/secret', [{ occurredAt: '2024-03-04T08:00:00Z', commitCount: 1 }]),
+    ],
+    pullRequestContributions: { totalCount: 0, pageInfo: PAGE_INFO_DONE, nodes: [] },
+  },
+  repositories_data: { totalCount: 0, pageInfo: PAGE_INFO_DONE, nodes: [] },
+};
+
+function history(authoredDates: string[], endCursor: string | null) {
+  return {
+    defaultBranchRef: {
+      target: {
+        history: {
+          pageInfo: { hasNextPage: endCursor !== null, endCursor },
+          nodes: authoredDates.map((authoredDate) => ({ authoredDate })),
+        },
+      },
+    },
+  };
+}
+
+let server: ReturnType<typeof Bun.serve> | undefined;
+const historyRequests: Array<{ query: string; variables: { [name: string]: string } }> = [];
+
+/**
+ * A local stand-in for the GraphQL endpoint of a GitHub Enterprise Server
+ */
+function startGraphQLMock(user: object = USER): string {
+  historyRequests.length = 0;
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      if (new URL(request.url).pathname !== '/api/graphql') return new Response('{}', { status: 404 });
+      const { query, variables } = await request.json() as { query: string; variables: { [name: string]: string } };
+
+      if (!query.includes('history(')) return Response.json({ data: { user } });
+      historyRequests.push({ query, variables });
+
+      // Aliases follow the order of the repositories in the query
+      const data: { [alias: string]: unknown } = {};
+      const errors: object[] = [];
+      for (const [index, [, name, after]] of [...query.matchAll(/name: "([^"]+)"\) \{\s*defaultBranchRef[\s\S]*?history\([^)]*?(?:after: "([^"]+)")?\)/g)].entries()) {
+        const alias = `r${index}`;
+        if (name === 'api') {
+          data[alias] = after === 'c1'
+            ? history(['2024-03-06T07:45:00Z', '2023-12-31T23:00:00Z'], null)
+            : history(['2024-03-04T09:15:00+02:00', '2024-03-05T22:30:00Z'], 'c1');
+        } else if (name === 'docs') {
+          data[alias] = { defaultBranchRef: null }; // An empty default branch
+        } else {
+          data[alias] = null;
+          errors.push({ type: 'FORBIDDEN', path: [alias], message: 'Resource not accessible' });
+        }
+      }
+
+      return Response.json(errors.length ? { data, errors } : { data });
+    },
+  });
+  return `http://localhost:${server.port}`;
+}
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+describe('GitHubGraphQLClient', () => {
+  test('places commits by their authored time and falls back to contribution days', async () => {
+    const host = resolveGitHubHost(startGraphQLMock());
+    const client = new GitHubGraphQLClient('jane', 'ghp_test', { host });
+
+    const commits = await client.getCommitsForYear(yearRange(2024), { withCommitTimes: true });
+
+    expect(commits.filter((commit) => !commit.dateOnly).map((commit) => commit.commit.author.date)).toEqual([
+      '2024-03-04T09:15:00+02:00',
+      '2024-03-05T22:30:00Z',
+      '2024-03-06T07:45:00Z',
+    ]);
+    // Three commits on one day in docs, one in the repository the token cannot read
+    expect(commits.filter((commit) => commit.dateOnly).map((commit) => commit.repository)).toEqual(['docs', 'docs', 'docs', 'secret']);
+
+    expect(historyRequests).toHaveLength(2);
+    expect(historyRequests[0].variables).toEqual({ authorId: 'U_jane', since: '2024-01-01T00:00:00Z', until: '2024-12-31T23:59:59.000Z' });
+    // Only the repository with more history is asked for again, from its own cursor
+    expect(historyRequests[1].query).toContain('name: "api"');
+    expect(historyRequests[1].query).not.toContain('name: "docs"');
+    expect(historyRequests[1].query).toContain('after: "c1"');
+  });
+
+  test('only crawls commit history when asked to', async () => {
+    const host = resolveGitHubHost(startGraphQLMock());
+    const client = new GitHubGraphQLClient('jane', 'ghp_test', { host });
+
+    const commits = await client.getCommitsForYear(yearRange(2024));
+
+    expect(historyRequests).toHaveLength(0);
+    expect(commits).toHaveLength(7);
+    expect(commits.every((commit) => commit.dateOnly)).toBe(true);
+  });
+
+  test('leaves date-only commits out of the peak hour and punch card', async () => {
+    const host = resolveGitHubHost(startGraphQLMock());
+    const client = new GitHubGraphQLClient('jane', 'ghp_test', { host });
+
+    const stats = await fetchWrappedStats(client, yearRange(2024), undefined, 'UTC');
+
+    expect(stats.peakHour).toBe(7);
+    expect(stats.punchCard.flat().reduce((sum, count) => sum + count, 0)).toBe(3);
+    expect(stats.punchCard[1][7]).toBe(1); // Monday 09:15 at +02:00
+    expect(stats.punchCard[2][22]).toBe(1);
+    expect(stats.punchCard[3][7]).toBe(1);
+  });
+
+  test('warns when the repository list hits the API maximum', async () => {
+    const repositories = Array.from({ length: 100 }, (_, index) =>
+      repoContribution(`jane/repo${index}`, [{ occurredAt: '2024-03-04T08:00:00Z', commitCount: 2 }]));
+    const user = { ...USER, contributionsCollection: { ...USER.contributionsCollection, totalCommitContributions: 250, commitContributionsByRepository: repositories } };
+    const host = resolveGitHubHost(startGraphQLMock(user));
+    const messages: string[] = [];
+    const client = new GitHubGraphQLClient('jane', 'ghp_test', { host, onProgress: (message) => messages.push(message) });
+
+    await client.getTotalCommitCount(yearRange(2024));
+
+    expect(messages).toContain('⚠ GitHub lists only 100 of the repositories you committed to in 2024 (200 of 250 commits); top repositories, languages and peak hour leave the rest out.');
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveGitHubHost } from '../src/utils/github-host.js';
+
+describe('resolveGitHubHost', () => {
+  test('maps github.com to the public API', () => {
+    expect(resolveGitHubHost('https://github.com/').apiUrl).toBe('https://api.github.com');
+  });
+
+  test('treats other hosts as Enterprise Server', () => {
+    expect(resolveGitHubHost('GHE.example.com:8443')).toEqual({
+      hostname: 'ghe.example.com:8443',
+      webUrl: 'https://ghe.example.com:8443',
+      apiUrl: 'https://ghe.example.com:8443/api/v3',
+      isEnterprise: true,
+    });
+  });
+
+  test('rejects anything but a plain hostname', () => {
+    for (const host of ['ghe$(touch${1-.pwned})', 'ghe`id`.example.com', 'ghe;id', 'user@ghe.example.com', 'ghe.example.com/path', 'ghe.example.com?x=1']) {
+      expect(() => resolveGitHubHost(host)).toThrow('Invalid GitHub host');
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { GitLabClient } from '../src/gitlab.js';
+import { fetchWrappedStats } from '../src/wrapped.js';
+import { NotFoundError, UnauthorizedError } from '../src/errors.js';
+import { yearRange } from '../src/utils/date-range.js';
+
+const USER = {
+  id: 7,
+  username: 'jane',
+  name: 'Jane Doe',
+  avatar_url: 'https://gitlab.example.com/uploads/jane.png',
+  bio: 'Backend',
+  created_at: '2019-05-01T10:00:00Z',
+  followers: 12,
+  following: 3,
+};
+
+const PROJECTS: { [id: string]: object } = {
+  1: { id: 1, name: 'api', path_with_namespace: 'jane/api', description: 'The API', star_count: 5, forks_count: 1, created_at: '2020-01-01T00:00:00Z', last_activity_at: '2024-03-06T00:00:00Z' },
+  2: { id: 2, name: 'web', path_with_namespace: 'jane/web', description: null, star_count: 2, forks_count: 0, created_at: '2021-01-01T00:00:00Z', last_activity_at: '2024-03-05T00:00:00Z' },
+};
+
+const LANGUAGES: { [id: string]: object } = {
+  1: { Go: 75, Shell: 25 },
+  2: { TypeScript: 100 },
+};
+
+const EVENTS = [
+  { action_name: 'approved', target_type: 'MergeRequest', created_at: '2024-04-01T12:00:00Z', project_id: 2 },
+  { action_name: 'opened', target_type: 'Issue', created_at: '2024-03-06T11:00:00Z', project_id: 1 },
+  { action_name: 'opened', target_type: 'MergeRequest', created_at: '2024-03-06T10:00:00Z', project_id: 1 },
+  { action_name: 'pushed to', target_type: null, created_at: '2024-03-05T22:00:00Z', project_id: 2, push_data: { commit_count: 1, commit_to: 'b2', commit_title: 'Add login page' } },
+  { action_name: 'pushed to', target_type: null, created_at: '2024-03-04T09:15:00Z', project_id: 1, push_data: { commit_count: 3, commit_to: 'a1', commit_title: 'Paginate users' } },
+];
+
+interface MockOptions {
+  status?: number; // Answer every request with this status instead
+  endlessEvents?: boolean; // Always point X-Next-Page at another page
+}
+
+let server: ReturnType<typeof Bun.serve> | undefined;
+const requests: Array<{ url: URL; token: string | null }> = [];
+
+/**
+ * A local stand-in for the GitLab REST API v4 serving one user's 2024
+ */
+function startGitLabMock(options: MockOptions = {}): string {
+  requests.length = 0;
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const url = new URL(request.url);
+      requests.push({ url, token: request.headers.get('private-token') });
+      const path = url.pathname.replace(/^\/api\/v4/, '');
+      const json = (body: unknown, headers: Record<string, string> = {}) => Response.json(body, { headers });
+
+      if (options.status) return new Response('{}', { status: options.status });
+
+      if (path === '/users') return json(url.searchParams.get('username') === 'jane' ? [{ id: USER.id, username: USER.username }] : []);
+      if (path === '/users/7') return json(USER);
+      if (path === '/users/7/projects') return json([PROJECTS[1]], { 'x-total': '3' });
+      if (path === '/users/7/events') {
+        if (options.endlessEvents) {
+          const page = Number(url.searchParams.get('page'));
+          return json([EVENTS[4]], { 'x-next-page': String(page + 1) });
+        }
+        return json(EVENTS);
+      }
+
+      const project = path.match(/^\/projects\/(\d+)(\/languages)?$/);
+      if (project) return json(project[2] ? LANGUAGES[project[1]] : PROJECTS[project[1]]);
+
+      if (path === '/merge_requests') {
+        return json([], { 'x-total': url.searchParams.has('reviewer_username') ? '2' : '4' });
+      }
+      // Without X-Total the client falls back to counting "opened" events
+      if (path === '/issues') return json([]);
+
+      return new Response('{"message":"404 Not Found"}', { status: 404 });
+    },
+  });
+  return `http://localhost:${server.port}`;
+}
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+describe('GitLabClient', () => {
+  test('maps a GitLab year onto WrappedStats', async () => {
+    const baseUrl = startGitLabMock();
+    const client = new GitLabClient('jane', 'glpat-test', { baseUrl });
+
+    const stats = await fetchWrappedStats(client, yearRange(2024), undefined, 'UTC');
+
+    expect(stats.user).toEqual({
+      login: 'jane',
+      name: 'Jane Doe',
+      avatar_url: USER.avatar_url,
+      bio: 'Backend',
+      public_repos: 3,
+      followers: 12,
+      following: 3,
+      created_at: USER.created_at,
+    });
+    expect(stats.totalCommits).toBe(4);
+    expect(stats.totalPRs).toBe(4);
+    expect(stats.totalIssues).toBe(1);
+    expect(stats.totalStars).toBe(7);
+    expect(stats.peakHour).toBe(9);
+    expect(stats.contributions.find((day) => day.date === '2024-03-04')?.count).toBe(3);
+    expect(stats.contributions.find((day) => day.date === '2024-03-06')?.count).toBe(2);
+    expect(stats.languageWeighting).toBe('repo-bytes');
+    expect(stats.topLanguages.map((lang) => [lang.name, lang.percentage])).toEqual([
+      ['Go', 56.25],
+      ['TypeScript', 25],
+      ['Shell', 18.75],
+    ]);
+
+    expect(requests.every((request) => request.token === 'glpat-test')).toBe(true);
+    const events = requests.find((request) => request.url.pathname.endsWith('/events'))!;
+    expect(events.url.searchParams.get('after')).toBe('2023-12-31');
+    expect(events.url.searchParams.get('before')).toBe('2025-01-01');
+  });
+
+  test('reports when event paging hits the page ceiling', async () => {
+    const baseUrl = startGitLabMock({ endlessEvents: true });
+    const messages: string[] = [];
+    const client = new GitLabClient('jane', undefined, { baseUrl, onProgress: (message) => messages.push(message) });
+
+    expect(await client.getTotalCommitCount(yearRange(2024))).toBe(300);
+    expect(messages).toContain('⚠ Stopped after 100 pages (100 events) of GitLab activity; older events in the period are left out.');
+  });
+
+  test('maps unknown users and rejected tokens to typed errors', async () => {
+    const baseUrl = startGitLabMock();
+    await expect(new GitLabClient('nobody', undefined, { baseUrl }).getUser(yearRange(2024))).rejects.toBeInstanceOf(NotFoundError);
+    server?.stop(true);
+
+    const rejecting = startGitLabMock({ status: 401 });
+    await expect(new GitLabClient('jane', 'expired', { baseUrl: rejecting }).getUser(yearRange(2024))).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalGitClient } from '../src/local-git.js';
+import { MissingConfigurationError } from '../src/errors.js';
+import { yearRange } from '../src/utils/date-range.js';
+
+let repo: string;
+
+/**
+ * Write `files` and commit them as `email` at `date`
+ */
+function commit(email: string, date: string, files: { [path: string]: string }, message = 'Change things') {
+  for (const [path, content] of Object.entries(files)) writeFileSync(join(repo, path), content);
+  execFileSync('git', ['add', '-A'], { cwd: repo });
+  execFileSync('git', ['commit', '-q', '-m', message], {
+    cwd: repo,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: email.split('@')[0],
+      GIT_AUTHOR_EMAIL: email,
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_NAME: email.split('@')[0],
+      GIT_COMMITTER_EMAIL: email,
+      GIT_COMMITTER_DATE: date,
+    },
+  });
+}
+
+const lines = (count: number) => Array.from({ length: count }, (_, index) => `line ${index}`).join('\n') + '\n';
+
+beforeAll(() => {
+  repo = mkdtempSync(join(tmpdir(), 'wrapped-local-git-'));
+  execFileSync('git', ['init', '-q'], { cwd: repo });
+
+  commit('me@example.com', '2023-12-31T23:30:00+00:00', { 'old.ts': lines(50) }, 'Before the year');
+  commit('Me@Example.com', '2024-03-04T09:15:00+02:00', { 'a.ts': lines(30), 'b.py': lines(10) }, 'Start');
+  commit('other@example.com', '2024-03-05T10:00:00+00:00', { 'c.go': lines(100) }, 'Not mine');
+  commit('me@example.com', '2024-03-06T22:00:00-05:00', { 'a.ts': lines(40) }, 'Grow');
+  commit('me@example.com', '2025-01-01T00:30:00+00:00', { 'b.py': lines(20) }, 'After the year');
+});
+
+afterAll(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe('LocalGitClient', () => {
+  test("keeps the author's commits inside the period", async () => {
+    const client = new LocalGitClient([repo], { emails: ['me@example.com'] });
+
+    const commits = await client.getCommitsForYear(yearRange(2024));
+
+    expect(commits.map((commit) => commit.commit.message.trim()).sort()).toEqual(['Grow', 'Start']);
+    expect(commits.every((commit) => commit.commit.author.email.toLowerCase() === 'me@example.com')).toBe(true);
+    expect(await client.getTotalCommitCount(yearRange(2024))).toBe(2);
+    expect(await client.getTotalCommitCount(yearRange(2023))).toBe(1);
+  });
+
+  test("buckets the calendar by the author's own day", async () => {
+    const client = new LocalGitClient([repo], { emails: ['me@example.com'] });
+
+    const calendar = await client.getContributionCalendar(yearRange(2024));
+
+    expect(calendar).toHaveLength(366);
+    expect(calendar.filter((day) => day.count > 0)).toEqual([
+      { date: '2024-03-04', count: 1 },
+      { date: '2024-03-06', count: 1 }, // 22:00 at -05:00 is already the 7th in UTC
+    ]);
+  });
+
+  test('splits each commit over its languages by lines changed', async () => {
+    const client = new LocalGitClient([repo], { emails: ['me@example.com'] });
+
+    expect(client.languageWeighting).toBe('lines-changed');
+    // Start: 30 TypeScript and 10 Python lines; Grow: 10 TypeScript lines added
+    expect(await client.getLanguages(yearRange(2024))).toEqual({ TypeScript: 1.75, Python: 0.25 });
+    expect(await client.getTotalLinesChanged(yearRange(2024))).toEqual({ additions: 50, deletions: 0, total: 50 });
+  });
+
+  test('needs an author email', async () => {
+    const client = new LocalGitClient([repo], { emails: [' '] });
+
+    await expect(client.getCommitsForYear(yearRange(2024))).rejects.toBeInstanceOf(MissingConfigurationError);
+  });
+});
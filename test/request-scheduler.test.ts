@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { RequestScheduler } from '../src/utils/request-scheduler.js';
+
+let server: ReturnType<typeof Bun.serve> | undefined;
+let hits = 0;
+
+/**
+ * A local server answering the nth request with `responses[n]` (the last one repeats)
+ */
+function startServer(responses: Array<() => Response>): string {
+  hits = 0;
+  server = Bun.serve({
+    port: 0,
+    fetch() {
+      const respond = responses[Math.min(hits, responses.length - 1)];
+      hits++;
+      return respond();
+    },
+  });
+  return `http://localhost:${server.port}/api/v4/projects`;
+}
+
+const ok = () => Response.json({ ok: true });
+const status = (code: number, headers: Record<string, string> = {}) => () => new Response('{}', { status: code, headers });
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+describe('RequestScheduler', () => {
+  test('retries server errors with backoff', async () => {
+    const url = startServer([status(503), ok]);
+    const messages: string[] = [];
+    const started = Date.now();
+
+    const response = await new RequestScheduler().createFetch((message) => messages.push(message))(url);
+
+    expect(response.status).toBe(200);
+    expect(hits).toBe(2);
+    // 1s for the first retry, plus up to 1s of jitter
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    expect(messages[0]).toMatch(/^Server error \(503\), retrying in [12]s \(1\/3\)\.\.\.$/);
+  }, 10000);
+
+  test('waits as long as Retry-After says on 429', async () => {
+    const url = startServer([status(429, { 'retry-after': '1' }), ok]);
+    const messages: string[] = [];
+    const started = Date.now();
+
+    const response = await new RequestScheduler().createFetch((message) => messages.push(message))(url);
+
+    expect(response.status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    expect(messages).toEqual(['Rate limited, retrying in 1s (1/3)...']);
+  }, 10000);
+
+  test('returns the last response once retries run out', async () => {
+    const url = startServer([status(502)]);
+
+    const response = await new RequestScheduler({ maxRetries: 1 }).createFetch()(url);
+
+    expect(response.status).toBe(502);
+    expect(hits).toBe(2);
+  }, 10000);
+
+  test('does not wait longer than maxWaitMs', async () => {
+    const url = startServer([status(429, { 'retry-after': '120' })]);
+
+    const response = await new RequestScheduler({ maxWaitMs: 1000 }).createFetch()(url);
+
+    expect(response.status).toBe(429);
+    expect(hits).toBe(1);
+  });
+
+  test('passes client errors straight through', async () => {
+    const url = startServer([status(404)]);
+
+    const response = await new RequestScheduler().createFetch()(url);
+
+    expect(response.status).toBe(404);
+    expect(hits).toBe(1);
+  });
+
+  test('runs at most `concurrency` tasks at once, in order', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 2 });
+    const started: number[] = [];
+    let active = 0;
+    let peak = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map((n) =>
+      scheduler.schedule(async () => {
+        started.push(n);
+        peak = Math.max(peak, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        return n * 10;
+      })
+    ));
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  test('frees the slot of a failed task', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1 });
+
+    await expect(scheduler.schedule(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await scheduler.schedule(async () => 'next')).toBe('next');
+  });
+});
@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { StatsAnalyzer } from '../src/analytics.js';
+import { hourInTimeZone, resolveTimeZone, wallClockInTimeZone, weekdayOfDate } from '../src/utils/timezone.js';
+import type { Commit, ContributionDay } from '../src/types.js';
+
+function commitAt(date: string): Commit {
+  return { sha: date, commit: { author: { name: 'Jane', email: 'jane@example.com', date }, message: 'Change things' } };
+}
+
+function days(...entries: Array<[string, number]>): ContributionDay[] {
+  return entries.map(([date, count]) => ({ date, count }));
+}
+
+// Run with a system zone far from UTC, so anything reading calendar dates as local midnight shows up
+let systemZone: string | undefined;
+
+beforeAll(() => {
+  systemZone = process.env.TZ;
+  process.env.TZ = 'America/Los_Angeles';
+});
+
+afterAll(() => {
+  if (systemZone === undefined) delete process.env.TZ;
+  else process.env.TZ = systemZone;
+});
+
+describe('wall clock time zones', () => {
+  test('canonicalizes zone names and rejects unknown ones', () => {
+    expect(resolveTimeZone('asia/tokyo')).toBe('Asia/Tokyo');
+    expect(() => resolveTimeZone('Mars/Olympus')).toThrow('Invalid time zone "Mars/Olympus"');
+  });
+
+  test('follows daylight saving changes', () => {
+    // New York skips 02:00 on 2024-03-10 and repeats 01:00 on 2024-11-03
+    expect(hourInTimeZone('2024-03-10T06:30:00Z', 'America/New_York')).toBe(1);
+    expect(hourInTimeZone('2024-03-10T07:30:00Z', 'America/New_York')).toBe(3);
+    expect(hourInTimeZone('2024-11-03T05:30:00Z', 'America/New_York')).toBe(1);
+    expect(hourInTimeZone('2024-11-03T06:30:00Z', 'America/New_York')).toBe(1);
+  });
+
+  test('moves commits across midnight into the next weekday', () => {
+    // Sunday 15:30 UTC is Monday 00:30 in Tokyo
+    expect(wallClockInTimeZone('2024-03-03T15:30:00Z', 'UTC')).toEqual({ weekday: 0, hour: 15 });
+    expect(wallClockInTimeZone('2024-03-03T15:30:00Z', 'Asia/Tokyo')).toEqual({ weekday: 1, hour: 0 });
+    expect(wallClockInTimeZone('2024-03-04T00:30:00+09:00', 'Asia/Tokyo')).toEqual({ weekday: 1, hour: 0 });
+  });
+
+  test('reads calendar dates as the day they name', () => {
+    expect(weekdayOfDate('2024-03-10')).toBe(0);
+    expect(weekdayOfDate('2024-11-03T23:59:59Z')).toBe(0);
+  });
+});
+
+describe('StatsAnalyzer in a fixed time zone', () => {
+  test('buckets the peak hour and punch card in that zone', () => {
+    const tokyo = new StatsAnalyzer('Asia/Tokyo');
+    const commits = ['2024-03-03T15:10:00Z', '2024-03-03T15:40:00Z', '2024-03-04T09:00:00Z'].map(commitAt);
+
+    expect(tokyo.calculatePeakHour(commits)).toBe(0);
+    expect(new StatsAnalyzer('UTC').calculatePeakHour(commits)).toBe(15);
+    expect(tokyo.calculatePunchCard(commits)[1][0]).toBe(2);
+    expect(tokyo.calculatePunchCard(commits)[1][18]).toBe(1);
+  });
+
+  test('counts both passes through the repeated hour when clocks fall back', () => {
+    const newYork = new StatsAnalyzer('America/New_York');
+    const commits = ['2024-11-03T05:30:00Z', '2024-11-03T06:30:00Z', '2024-11-03T14:00:00Z'].map(commitAt);
+
+    expect(newYork.calculatePeakHour(commits)).toBe(1);
+  });
+
+  test('takes the busiest day and streaks from calendar dates, whatever the zone', () => {
+    const contributions = days(['2024-03-09', 1], ['2024-03-10', 5], ['2024-03-11', 2], ['2024-03-12', 0], ['2024-11-03', 1]);
+
+    for (const timeZone of ['Asia/Tokyo', 'America/New_York', 'Pacific/Kiritimati']) {
+      const analyzer = new StatsAnalyzer(timeZone);
+      expect(analyzer.calculateBusiestDay(contributions)).toBe('Sunday');
+      expect(analyzer.calculateStreak(contributions)).toEqual({ longest: 3, current: 1 });
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { parseHostsToken } from '../src/utils/token-discovery.js';
+
+const HOSTS = `# gh hosts config
+github.com:
+    user: jane
+    oauth_token: "gho_quoted"
+    git_protocol: https
+"ghe.example.com":
+    # oauth_token: gho_commented
+    oauth_token: 'gho_single'
+    users:
+        jdoe:
+            oauth_token: gho_nested
+plain.example.com:
+    user: jdoe
+    oauth_token: gho_plain
+`;
+
+describe('parseHostsToken', () => {
+  test('reads quoted and bare tokens from the matching host block', () => {
+    expect(parseHostsToken(HOSTS, 'github.com')).toBe('gho_quoted');
+    expect(parseHostsToken(HOSTS, 'ghe.example.com')).toBe('gho_single');
+    expect(parseHostsToken(HOSTS, 'plain.example.com')).toBe('gho_plain');
+  });
+
+  test('skips commented-out tokens', () => {
+    const content = 'github.com:\n    # oauth_token: gho_old\n    user: jane\n';
+    expect(parseHostsToken(content, 'github.com')).toBeNull();
+  });
+
+  test('returns null for a host without a block or a token', () => {
+    expect(parseHostsToken(HOSTS, 'gitlab.com')).toBeNull();
+    expect(parseHostsToken('github.com:\n    user: jane\n', 'github.com')).toBeNull();
+    expect(parseHostsToken('', 'github.com')).toBeNull();
+  });
+
+  test('reads files with Windows line endings', () => {
+    expect(parseHostsToken('github.com:\r\n    oauth_token: gho_crlf\r\n', 'github.com')).toBe('gho_crlf');
+  });
+});